@@ -0,0 +1,99 @@
+import type { ChatAnalytics } from './analyzer';
+import { EMPTY_FILTER, type MessageFilter } from './filter';
+import log from './logger';
+
+/**
+ * Messages sent from the main thread to the analytics worker
+ */
+export type AnalyticsWorkerRequest = { type: 'start'; chatId: string; filter: MessageFilter; query: string };
+
+/**
+ * Messages sent from the analytics worker back to the main thread
+ */
+export type AnalyticsWorkerResponse =
+	| { type: 'progress'; analyzedCount: number }
+	| { type: 'done'; analytics: ChatAnalytics }
+	| { type: 'error'; message: string };
+
+/**
+ * Computes a chat's analytics in a Web Worker, reading its messages straight from the database
+ *
+ * With a filter or a search query, only the messages passing both are analyzed; the query
+ * is sent as typed and parsed again in the worker.
+ */
+export class ChatAnalyticsTask {
+	private worker: Worker | null = null;
+	private rejectRun: ((error: Error) => void) | null = null;
+
+	constructor(
+		private readonly chatId: string,
+		private readonly onProgress?: (analyzedCount: number) => void,
+		private readonly filter: MessageFilter = EMPTY_FILTER,
+		private readonly query = ''
+	) {}
+
+	/**
+	 * Start the worker and wait for the finished analytics
+	 */
+	run(): Promise<ChatAnalytics> {
+		log.info('Starting chat analytics worker');
+
+		return new Promise((resolve, reject) => {
+			this.rejectRun = reject;
+			this.worker = new Worker(new URL('./analyzer.worker.ts', import.meta.url), { type: 'module' });
+
+			this.worker.onmessage = (event: MessageEvent<AnalyticsWorkerResponse>) => {
+				const response = event.data;
+
+				switch (response.type) {
+					case 'progress':
+						this.onProgress?.(response.analyzedCount);
+						break;
+					case 'done':
+						this.dispose();
+						resolve(response.analytics);
+						break;
+					case 'error':
+						this.fail(new Error(response.message));
+						break;
+				}
+			};
+
+			this.worker.onerror = (event) => {
+				event.preventDefault();
+				this.fail(new Error(event.message || 'Analytics worker crashed'));
+			};
+
+			const request: AnalyticsWorkerRequest = { type: 'start', chatId: this.chatId, filter: this.filter, query: this.query };
+			this.worker.postMessage(request);
+		});
+	}
+
+	/**
+	 * Stop computing, e.g. when the dashboard is closed
+	 */
+	cancel(): void {
+		if (!this.worker) return;
+
+		log.info('Cancelling chat analytics worker');
+		this.fail(new Error('Analytics cancelled'));
+	}
+
+	/**
+	 * Stop the worker and reject the running promise
+	 */
+	private fail(error: Error): void {
+		const reject = this.rejectRun;
+		this.dispose();
+		reject?.(error);
+	}
+
+	/**
+	 * Terminate the worker and drop references to it
+	 */
+	private dispose(): void {
+		this.worker?.terminate();
+		this.worker = null;
+		this.rejectRun = null;
+	}
+}
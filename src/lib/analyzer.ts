@@ -0,0 +1,355 @@
+import { SearchTokenizer } from './search';
+import { SearchQueryMatcher } from './query';
+import { MessageClassifier, type MessageKind } from './kinds';
+
+/**
+ * Message fields the analytics are computed from
+ */
+export interface AnalyzableMessage {
+	timestamp: Date;
+	sender: string;
+	content: string;
+	attachment?: string;
+	kind?: MessageKind;
+}
+
+/**
+ * A word or emoji and how often it was used
+ */
+export interface UsageCount {
+	value: string;
+	count: number;
+}
+
+/**
+ * Totals and favourite words for one participant
+ */
+export interface ParticipantAnalytics {
+	name: string;
+	messages: number;
+	words: number;
+	media: number;
+	links: number;
+	topWords: UsageCount[];
+	topEmoji: UsageCount[];
+}
+
+/**
+ * Messages per participant in consecutive day or month buckets
+ */
+export interface ActivityTimeline {
+	bucket: 'day' | 'month';
+	/** `YYYY-MM-DD` or `YYYY-MM`, one per bucket with no gaps */
+	labels: string[];
+	series: { participant: string; counts: number[] }[];
+}
+
+/**
+ * Typical time `from` takes to answer a message from `to`
+ */
+export interface ReplyLatency {
+	from: string;
+	to: string;
+	medianMs: number;
+	count: number;
+}
+
+/**
+ * Everything the analytics dashboard shows for a chat
+ */
+export interface ChatAnalytics {
+	messageCount: number;
+	firstMessageAt: Date | null;
+	lastMessageAt: Date | null;
+	averageMessagesPerDay: number;
+	/** Message counts by weekday (0 is Sunday) and hour */
+	heatmap: number[][];
+	timeline: ActivityTimeline;
+	replyLatency: ReplyLatency[];
+	conversationCount: number;
+	conversationStarters: { participant: string; count: number }[];
+	longestStreak: { start: Date; end: Date; days: number } | null;
+	longestSilences: { from: Date; to: Date; durationMs: number }[];
+	/** Busiest first; system messages are left out */
+	participants: ParticipantAnalytics[];
+}
+
+/**
+ * Running totals for one participant
+ */
+interface ParticipantAccumulator {
+	messages: number;
+	words: number;
+	media: number;
+	links: number;
+	wordCounts: Map<string, number>;
+	emojiCounts: Map<string, number>;
+}
+
+/**
+ * Accumulates chat analytics one message at a time, so large chats can be streamed through it
+ *
+ * Messages must be added in chronological order.
+ */
+export class ChatAnalyzer {
+	// A gap this long ends a conversation; the next message starts a new one
+	private static readonly CONVERSATION_GAP_MS = 6 * 60 * 60 * 1000;
+	private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+	// Spans up to about three months are charted per day, longer ones per month
+	private static readonly DAILY_TIMELINE_MAX_DAYS = 92;
+	private static readonly TOP_COUNT = 10;
+	private static readonly SILENCE_COUNT = 5;
+	private static readonly MIN_WORD_LENGTH = 3;
+	private static readonly URL_REGEX = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+	private static readonly EMOJI_REGEX = /\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\uFE0F|\u200D\p{Extended_Pictographic})*/gu;
+	private static readonly STOP_WORDS = new Set([
+		'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+		'our', 'out', 'has', 'him', 'his', 'how', 'its', 'who', 'did', 'get', 'she', 'too', 'use', 'that',
+		'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what', 'when', 'then',
+		'them', 'than', 'there', 'their', 'would', 'could', 'should', 'about', 'just', 'like', 'also',
+		'into', 'some', 'only', 'over', 'very', 'because', 'which', 'where', 'while', 'these', 'those',
+		'omitted', 'media', 'attached', 'message', 'deleted', 'edited'
+	]);
+
+	private messageCount = 0;
+	private firstMessageAt: Date | null = null;
+	private lastMessageAt: Date | null = null;
+	private readonly heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+	private readonly participants = new Map<string, ParticipantAccumulator>();
+	// Day number -> participant -> messages
+	private readonly dailyCounts = new Map<number, Map<string, number>>();
+	private readonly latencies = new Map<string, number[]>();
+	private readonly starters = new Map<string, number>();
+	private conversationCount = 0;
+	private previous: AnalyzableMessage | null = null;
+	private previousAt: Date | null = null;
+	private streak: { start: number; end: number } | null = null;
+	private longestStreak: { start: number; end: number } | null = null;
+	private silences: { from: Date; to: Date; durationMs: number }[] = [];
+
+	/**
+	 * Add the next message in chronological order
+	 */
+	add(message: AnalyzableMessage): void {
+		const timestamp = message.timestamp;
+		this.messageCount++;
+		this.firstMessageAt ??= timestamp;
+		this.lastMessageAt = timestamp;
+
+		if (this.previousAt) {
+			this.recordSilence(this.previousAt, timestamp);
+		}
+		this.previousAt = timestamp;
+
+		if (message.sender === 'System') return;
+
+		const day = ChatAnalyzer.dayNumber(timestamp);
+		this.heatmap[timestamp.getDay()][timestamp.getHours()]++;
+		this.recordStreak(day);
+
+		const perDay = this.dailyCounts.get(day) ?? new Map<string, number>();
+		perDay.set(message.sender, (perDay.get(message.sender) ?? 0) + 1);
+		this.dailyCounts.set(day, perDay);
+
+		const gap = this.previous ? timestamp.getTime() - this.previous.timestamp.getTime() : Infinity;
+		if (gap > ChatAnalyzer.CONVERSATION_GAP_MS) {
+			this.conversationCount++;
+			this.starters.set(message.sender, (this.starters.get(message.sender) ?? 0) + 1);
+		} else if (this.previous && this.previous.sender !== message.sender) {
+			const key = `${message.sender}\u0000${this.previous.sender}`;
+			const list = this.latencies.get(key) ?? [];
+			list.push(gap);
+			this.latencies.set(key, list);
+		}
+		this.previous = message;
+
+		this.recordParticipant(message);
+	}
+
+	/**
+	 * Build the analytics for everything added so far
+	 */
+	finish(): ChatAnalytics {
+		const spanDays = this.firstMessageAt && this.lastMessageAt
+			? Math.max(1, (this.lastMessageAt.getTime() - this.firstMessageAt.getTime()) / ChatAnalyzer.DAY_MS)
+			: 1;
+
+		const participants = [...this.participants]
+			.map(([name, stats]) => ({
+				name,
+				messages: stats.messages,
+				words: stats.words,
+				media: stats.media,
+				links: stats.links,
+				topWords: ChatAnalyzer.top(stats.wordCounts),
+				topEmoji: ChatAnalyzer.top(stats.emojiCounts)
+			}))
+			.sort((a, b) => b.messages - a.messages);
+
+		const replyLatency = [...this.latencies].map(([key, values]) => {
+			const [from, to] = key.split('\u0000');
+			return { from, to, medianMs: ChatAnalyzer.median(values), count: values.length };
+		}).sort((a, b) => b.count - a.count);
+
+		return {
+			messageCount: this.messageCount,
+			firstMessageAt: this.firstMessageAt,
+			lastMessageAt: this.lastMessageAt,
+			averageMessagesPerDay: this.messageCount / spanDays,
+			heatmap: this.heatmap,
+			timeline: this.buildTimeline(participants.map(participant => participant.name)),
+			replyLatency,
+			conversationCount: this.conversationCount,
+			conversationStarters: [...this.starters]
+				.map(([participant, count]) => ({ participant, count }))
+				.sort((a, b) => b.count - a.count),
+			longestStreak: this.longestStreak && {
+				start: ChatAnalyzer.dayDate(this.longestStreak.start),
+				end: ChatAnalyzer.dayDate(this.longestStreak.end),
+				days: this.longestStreak.end - this.longestStreak.start + 1
+			},
+			longestSilences: this.silences,
+			participants
+		};
+	}
+
+	/**
+	 * Count a message's words, emoji, media and links for its sender
+	 */
+	private recordParticipant(message: AnalyzableMessage): void {
+		let stats = this.participants.get(message.sender);
+		if (!stats) {
+			stats = { messages: 0, words: 0, media: 0, links: 0, wordCounts: new Map(), emojiCounts: new Map() };
+			this.participants.set(message.sender, stats);
+		}
+
+		stats.messages++;
+		if (SearchQueryMatcher.hasLink(message)) stats.links++;
+		if (SearchQueryMatcher.hasMedia(message)) {
+			stats.media++;
+			// Placeholder text like "<Media omitted>" says nothing about how someone writes
+			return;
+		}
+		// Nor do deleted notices, polls, calls and the like
+		if (message.kind && message.kind.type !== 'text' && message.kind.type !== 'edited') return;
+
+		const content = MessageClassifier.stripEditedMarker(message.content);
+		const words = SearchTokenizer.tokenize(content.replace(ChatAnalyzer.URL_REGEX, ' '));
+		stats.words += words.length;
+		for (const word of words) {
+			if (word.length < ChatAnalyzer.MIN_WORD_LENGTH || ChatAnalyzer.STOP_WORDS.has(word) || /^\d+$/.test(word)) {
+				continue;
+			}
+			stats.wordCounts.set(word, (stats.wordCounts.get(word) ?? 0) + 1);
+		}
+
+		for (const [emoji] of content.matchAll(ChatAnalyzer.EMOJI_REGEX)) {
+			stats.emojiCounts.set(emoji, (stats.emojiCounts.get(emoji) ?? 0) + 1);
+		}
+	}
+
+	/**
+	 * Extend or restart the run of consecutive active days
+	 */
+	private recordStreak(day: number): void {
+		if (this.streak && day <= this.streak.end) return;
+
+		this.streak = this.streak && day === this.streak.end + 1
+			? { start: this.streak.start, end: day }
+			: { start: day, end: day };
+
+		if (!this.longestStreak || this.streak.end - this.streak.start > this.longestStreak.end - this.longestStreak.start) {
+			this.longestStreak = { ...this.streak };
+		}
+	}
+
+	/**
+	 * Keep the longest gaps between consecutive messages, longest first
+	 */
+	private recordSilence(from: Date, to: Date): void {
+		const durationMs = to.getTime() - from.getTime();
+		const shortest = this.silences[this.silences.length - 1];
+		if (this.silences.length >= ChatAnalyzer.SILENCE_COUNT && durationMs <= shortest.durationMs) return;
+
+		this.silences.push({ from, to, durationMs });
+		this.silences.sort((a, b) => b.durationMs - a.durationMs);
+		this.silences.length = Math.min(this.silences.length, ChatAnalyzer.SILENCE_COUNT);
+	}
+
+	/**
+	 * Fill the per-day counts into consecutive buckets for each participant
+	 */
+	private buildTimeline(names: string[]): ActivityTimeline {
+		if (this.dailyCounts.size === 0) {
+			return { bucket: 'day', labels: [], series: [] };
+		}
+
+		const days = [...this.dailyCounts.keys()];
+		const firstDay = Math.min(...days);
+		const lastDay = Math.max(...days);
+		const bucket = lastDay - firstDay < ChatAnalyzer.DAILY_TIMELINE_MAX_DAYS ? 'day' : 'month';
+
+		const labels: string[] = [];
+		const bucketOf = new Map<string, number>();
+		for (let day = firstDay; day <= lastDay; day++) {
+			const label = ChatAnalyzer.dayLabel(day, bucket);
+			if (!bucketOf.has(label)) {
+				bucketOf.set(label, labels.length);
+				labels.push(label);
+			}
+		}
+
+		const series = names.map(participant => ({ participant, counts: new Array<number>(labels.length).fill(0) }));
+		const seriesOf = new Map(series.map(entry => [entry.participant, entry]));
+		for (const [day, perParticipant] of this.dailyCounts) {
+			const index = bucketOf.get(ChatAnalyzer.dayLabel(day, bucket))!;
+			for (const [participant, count] of perParticipant) {
+				seriesOf.get(participant)!.counts[index] += count;
+			}
+		}
+
+		return { bucket, labels, series };
+	}
+
+	/**
+	 * Days since the epoch for a local calendar date
+	 */
+	private static dayNumber(date: Date): number {
+		return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / this.DAY_MS);
+	}
+
+	/**
+	 * Local midnight of a day number
+	 */
+	private static dayDate(day: number): Date {
+		const utc = new Date(day * this.DAY_MS);
+		return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+	}
+
+	/**
+	 * Timeline label of the bucket a day falls into
+	 */
+	private static dayLabel(day: number, bucket: 'day' | 'month'): string {
+		const iso = new Date(day * this.DAY_MS).toISOString();
+		return bucket === 'day' ? iso.slice(0, 10) : iso.slice(0, 7);
+	}
+
+	/**
+	 * Most frequent entries of a count map
+	 */
+	private static top(counts: Map<string, number>): UsageCount[] {
+		return [...counts]
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, this.TOP_COUNT)
+			.map(([value, count]) => ({ value, count }));
+	}
+
+	/**
+	 * Middle value of a list of numbers
+	 */
+	private static median(values: number[]): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		const middle = Math.floor(sorted.length / 2);
+		return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+	}
+}
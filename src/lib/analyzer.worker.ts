@@ -0,0 +1,40 @@
+import { dbService } from './database';
+import { ChatAnalyzer } from './analyzer';
+import { MessageFilterMatcher, type MessageFilter } from './filter';
+import { SearchQueryMatcher, SearchQueryParser } from './query';
+import type { AnalyticsWorkerRequest, AnalyticsWorkerResponse } from './analytics';
+
+/**
+ * Post a response to the main thread
+ */
+function post(response: AnalyticsWorkerResponse): void {
+	self.postMessage(response);
+}
+
+/**
+ * Stream the chat's messages that pass the filter and match the query through the analyzer,
+ * reporting progress after each batch
+ */
+async function analyzeChat(chatId: string, filter: MessageFilter, source: string): Promise<void> {
+	const analyzer = new ChatAnalyzer();
+	const query = source ? SearchQueryParser.parse(source) : null;
+	let analyzedCount = 0;
+
+	for await (const batch of dbService.streamMessages(chatId)) {
+		for (const message of batch) {
+			if (MessageFilterMatcher.matches(message, filter) && (!query || SearchQueryMatcher.matches(message, query))) {
+				analyzer.add(message);
+			}
+		}
+		analyzedCount += batch.length;
+		post({ type: 'progress', analyzedCount });
+	}
+
+	post({ type: 'done', analytics: analyzer.finish() });
+}
+
+self.onmessage = (event: MessageEvent<AnalyticsWorkerRequest>) => {
+	analyzeChat(event.data.chatId, event.data.filter, event.data.query).catch(error => {
+		post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to analyze chat' });
+	});
+};
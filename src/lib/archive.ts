@@ -0,0 +1,131 @@
+import { unzip, type Unzipped } from 'fflate';
+import log from './logger';
+
+/**
+ * Media file extracted from a chat archive
+ */
+export interface ArchiveMedia {
+	fileName: string;
+	mimeType: string;
+	blob: Blob;
+}
+
+/**
+ * Contents of a WhatsApp "Export with media" archive
+ */
+export interface ChatArchive {
+	chatFileName: string;
+	chatText: string;
+	media: Map<string, ArchiveMedia>;
+}
+
+/**
+ * Reader for WhatsApp ZIP exports that unpacks the chat text and its attachments in the browser
+ */
+export class ChatArchiveReader {
+	private static readonly MIME_TYPES: Record<string, string> = {
+		jpg: 'image/jpeg',
+		jpeg: 'image/jpeg',
+		png: 'image/png',
+		gif: 'image/gif',
+		webp: 'image/webp',
+		heic: 'image/heic',
+		mp4: 'video/mp4',
+		mov: 'video/quicktime',
+		'3gp': 'video/3gpp',
+		webm: 'video/webm',
+		opus: 'audio/ogg',
+		ogg: 'audio/ogg',
+		mp3: 'audio/mpeg',
+		m4a: 'audio/mp4',
+		aac: 'audio/aac',
+		wav: 'audio/wav',
+		pdf: 'application/pdf',
+		vcf: 'text/vcard',
+		txt: 'text/plain'
+	};
+
+	/**
+	 * Check whether a file looks like a ZIP archive
+	 */
+	static isArchive(file: File): boolean {
+		return file.name.toLowerCase().endsWith('.zip') ||
+			file.type === 'application/zip' ||
+			file.type === 'application/x-zip-compressed';
+	}
+
+	/**
+	 * Unpack a WhatsApp export archive into chat text and media blobs
+	 */
+	static async read(file: File): Promise<ChatArchive> {
+		log.info('Reading WhatsApp export archive');
+		const buffer = new Uint8Array(await file.arrayBuffer());
+		const entries = await this.unzipAsync(buffer);
+
+		const chatEntry = this.findChatEntry(Object.keys(entries));
+		if (!chatEntry) {
+			throw new Error('No chat text file found in the archive');
+		}
+
+		const media = new Map<string, ArchiveMedia>();
+		for (const [path, data] of Object.entries(entries)) {
+			if (path === chatEntry || path.endsWith('/') || data.length === 0) continue;
+
+			const fileName = this.baseName(path);
+			const mimeType = this.getMimeType(fileName);
+			media.set(fileName, {
+				fileName,
+				mimeType,
+				blob: new Blob([data], { type: mimeType })
+			});
+		}
+
+		log.info(`Archive contains ${media.size} media files`);
+
+		return {
+			chatFileName: this.baseName(chatEntry),
+			chatText: new TextDecoder('utf-8').decode(entries[chatEntry]),
+			media
+		};
+	}
+
+	/**
+	 * Guess a MIME type from a file extension
+	 */
+	static getMimeType(fileName: string): string {
+		const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+		return this.MIME_TYPES[extension] ?? 'application/octet-stream';
+	}
+
+	/**
+	 * Pick the chat transcript: `_chat.txt` on iOS, `WhatsApp Chat with ….txt` on Android
+	 */
+	private static findChatEntry(paths: string[]): string | undefined {
+		const textFiles = paths.filter(path => path.toLowerCase().endsWith('.txt'));
+		return textFiles.find(path => this.baseName(path) === '_chat.txt') ??
+			textFiles.find(path => /chat/i.test(this.baseName(path))) ??
+			textFiles[0];
+	}
+
+	/**
+	 * Strip folder components from an archive path
+	 */
+	private static baseName(path: string): string {
+		return path.split('/').pop() ?? path;
+	}
+
+	/**
+	 * Promise wrapper around fflate's asynchronous unzip
+	 */
+	private static unzipAsync(buffer: Uint8Array): Promise<Unzipped> {
+		return new Promise((resolve, reject) => {
+			unzip(buffer, (error, result) => {
+				if (error) {
+					reject(new Error(`Failed to unpack archive: ${error.message}`));
+				} else {
+					resolve(result);
+				}
+			});
+		});
+	}
+}
@@ -0,0 +1,156 @@
+import { zip, unzip, strToU8, strFromU8, type AsyncZippable, type Unzipped } from 'fflate';
+import type { DatabaseSnapshot } from './database';
+import log from './logger';
+
+/**
+ * Backup file could not be read, or was written by an incompatible version
+ */
+export class BackupError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BackupError';
+	}
+}
+
+/**
+ * Media record as listed in a backup manifest; the blob is stored as its own archive entry
+ */
+interface BackupMediaEntry extends Omit<DatabaseSnapshot['media'][number], 'blob'> {
+	path: string;
+}
+
+/**
+ * Contents of `backup.json`
+ */
+interface BackupManifest extends Omit<DatabaseSnapshot, 'media'> {
+	format: string;
+	version: number;
+	createdAt: string;
+	media: BackupMediaEntry[];
+}
+
+/**
+ * Backup as read from a file, ready to restore
+ */
+export interface BackupContents {
+	version: number;
+	createdAt: Date;
+	snapshot: DatabaseSnapshot;
+}
+
+/**
+ * Writes and reads single-file backups of the whole database
+ *
+ * A backup is a ZIP holding `backup.json`, with every chat, message, bookmark,
+ * collection and setting, and a `media/` folder with attachment blobs.
+ */
+export class BackupArchive {
+	static readonly FORMAT = 'whatsapp-chat-viewer-backup';
+	static readonly VERSION = 1;
+	private static readonly MANIFEST_PATH = 'backup.json';
+	// Fields holding dates, which JSON turns into ISO strings
+	private static readonly DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'lastMessageAt', 'timestamp']);
+
+	/**
+	 * Pack a database snapshot into a backup file
+	 */
+	static async create(snapshot: DatabaseSnapshot): Promise<Blob> {
+		log.info('Creating backup archive');
+		const files: AsyncZippable = {};
+		const media: BackupMediaEntry[] = [];
+
+		for (const { blob, ...file } of snapshot.media) {
+			const path = `media/${file.id}`;
+			media.push({ ...file, path });
+			// Media is already compressed; storing it as-is keeps the backup quick
+			files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+		}
+
+		const manifest: BackupManifest = {
+			format: this.FORMAT,
+			version: this.VERSION,
+			createdAt: new Date().toISOString(),
+			chats: snapshot.chats,
+			messages: snapshot.messages,
+			bookmarks: snapshot.bookmarks,
+			collections: snapshot.collections,
+			settings: snapshot.settings,
+			media
+		};
+		files[this.MANIFEST_PATH] = strToU8(JSON.stringify(manifest));
+
+		const data = await new Promise<Uint8Array>((resolve, reject) => {
+			zip(files, (error, result) => error ? reject(error) : resolve(result));
+		});
+		return new Blob([data], { type: 'application/zip' });
+	}
+
+	/**
+	 * Unpack and validate a backup file
+	 */
+	static async read(file: File): Promise<BackupContents> {
+		log.info('Reading backup archive');
+		let entries: Unzipped;
+		try {
+			const buffer = new Uint8Array(await file.arrayBuffer());
+			entries = await new Promise<Unzipped>((resolve, reject) => {
+				unzip(buffer, (error, result) => error ? reject(error) : resolve(result));
+			});
+		} catch {
+			throw new BackupError('This file is not a backup archive.');
+		}
+
+		const manifestData = entries[this.MANIFEST_PATH];
+		if (!manifestData) {
+			throw new BackupError('This archive is not a chat viewer backup.');
+		}
+
+		let manifest: BackupManifest;
+		try {
+			manifest = JSON.parse(strFromU8(manifestData), (key, value) =>
+				this.DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value);
+		} catch {
+			throw new BackupError('The backup is damaged and cannot be read.');
+		}
+
+		this.validate(manifest);
+
+		const media = manifest.media.map(({ path, ...entry }) => {
+			const data = entries[path];
+			if (!data) {
+				throw new BackupError(`The backup is missing the attachment "${entry.fileName}".`);
+			}
+			return { ...entry, blob: new Blob([data], { type: entry.mimeType }) };
+		});
+
+		return {
+			version: manifest.version,
+			createdAt: new Date(manifest.createdAt),
+			snapshot: {
+				chats: manifest.chats,
+				messages: manifest.messages,
+				bookmarks: manifest.bookmarks,
+				collections: manifest.collections,
+				settings: manifest.settings,
+				media
+			}
+		};
+	}
+
+	/**
+	 * Check the manifest's format and version before anything is restored
+	 */
+	private static validate(manifest: BackupManifest): void {
+		if (!manifest || manifest.format !== this.FORMAT || !Number.isInteger(manifest.version)) {
+			throw new BackupError('This archive is not a chat viewer backup.');
+		}
+		if (manifest.version > this.VERSION) {
+			throw new BackupError('This backup was made by a newer version of the app. Update the app to restore it.');
+		}
+
+		const lists = ['chats', 'messages', 'bookmarks', 'collections', 'settings', 'media'] as const;
+		if (lists.some(list => !Array.isArray(manifest[list]))) {
+			throw new BackupError('The backup is incomplete and cannot be restored.');
+		}
+	}
+}
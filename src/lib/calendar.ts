@@ -0,0 +1,58 @@
+/**
+ * One cell of a month grid
+ */
+export interface CalendarDay {
+	date: Date;
+	// Local YYYY-MM-DD, matching the keys of per-day message counts
+	key: string;
+	// False for the leading and trailing days of the neighbouring months
+	inMonth: boolean;
+}
+
+/**
+ * Local-time helpers for laying out and querying one month at a time
+ */
+export class CalendarMonth {
+	/**
+	 * Local YYYY-MM-DD key of the day a moment falls on
+	 */
+	static dayKey(date: Date): string {
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+
+	/**
+	 * Start of a month and start of the next, in local time
+	 */
+	static range(year: number, month: number): { from: Date; to: Date } {
+		return { from: new Date(year, month, 1), to: new Date(year, month + 1, 1) };
+	}
+
+	/**
+	 * Start of a day and start of the next, in local time
+	 */
+	static dayRange(date: Date): { from: Date; to: Date } {
+		const from = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+		return { from, to: new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1) };
+	}
+
+	/**
+	 * Weeks of a month from Sunday to Saturday, padded with days of the months around it
+	 */
+	static weeks(year: number, month: number): CalendarDay[][] {
+		const first = new Date(year, month, 1);
+		const start = new Date(year, month, 1 - first.getDay());
+		const weeks: CalendarDay[][] = [];
+
+		for (let cursor = start; weeks.length === 0 || cursor.getMonth() === month; ) {
+			const week: CalendarDay[] = [];
+			for (let i = 0; i < 7; i++) {
+				week.push({ date: cursor, key: CalendarMonth.dayKey(cursor), inMonth: cursor.getMonth() === month });
+				cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+			}
+			weeks.push(week);
+		}
+		return weeks;
+	}
+}
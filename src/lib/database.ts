@@ -1,6 +1,71 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb';
+import type { DateFormat } from './parser';
+import { SearchTokenizer } from './search';
+import { SearchQueryMatcher, type SearchQuery } from './query';
+import { MessageClassifier, type MessageKind } from './kinds';
+import { CalendarMonth } from './calendar';
+import { MessageFilterMatcher, type MessageFilter } from './filter';
 import log from './logger';
 
+/**
+ * Message fields accepted when storing a chat
+ */
+type StoredMessageInput = {
+	timestamp: Date;
+	sender: string;
+	content: string;
+	attachment?: string;
+	kind?: MessageKind;
+};
+
+/**
+ * Attachment blobs keyed by file name, as unpacked from an export archive
+ */
+type StoredMediaInput = Map<string, { fileName: string; mimeType: string; blob: Blob }>;
+
+/**
+ * Colour labels a bookmark can carry
+ */
+export const BOOKMARK_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple'] as const;
+export type BookmarkColor = typeof BOOKMARK_COLORS[number];
+
+/**
+ * Bookmark fields that can be edited after creation
+ */
+export type BookmarkChanges = {
+	note?: string;
+	tags?: string[];
+	color?: BookmarkColor | null;
+	collectionId?: string | null;
+};
+
+/**
+ * Reports how many messages of an import have been committed
+ */
+export type StoreProgressCallback = (storedCount: number, totalCount: number) => void;
+
+/**
+ * How a restore treats what is already stored: `replace` wipes it first, `merge` keeps it
+ */
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * Which side wins when a merged chat, bookmark, collection or setting already exists
+ */
+export type RestoreConflictPolicy = 'keep-existing' | 'use-backup';
+
+/**
+ * What a restore wrote and what it left out because of conflicts
+ */
+export type RestoreSummary = {
+	chatsRestored: number;
+	chatsSkipped: number;
+	messagesRestored: number;
+	bookmarksRestored: number;
+	bookmarksSkipped: number;
+	collectionsRestored: number;
+};
+
 /**
  * Database schema interface for WhatsApp Chat Viewer
  */
@@ -15,6 +80,14 @@ interface ChatViewerDB extends DBSchema {
 			lastMessageAt: Date;
 			messageCount: number;
 			rawContent: string;
+			// Absent on chats stored before imports became resumable, which were always complete
+			importStatus?: 'incomplete' | 'complete';
+			storedMessageCount?: number;
+			importFormat?: DateFormat;
+			// False or absent until the chat's messages are in the search index
+			searchIndexed?: boolean;
+			// Participant who is the user; null for an observer, absent until chosen
+			identity?: string | null;
 		};
 		indexes: {
 			'by-name': string;
@@ -31,12 +104,16 @@ interface ChatViewerDB extends DBSchema {
 			sender: string;
 			content: string;
 			messageIndex: number;
+			attachment?: string;
+			kind: MessageKind;
 		};
 		indexes: {
 			'by-chat': string;
 			'by-timestamp': Date;
 			'by-sender': string;
 			'by-chat-index': [string, number];
+			'by-chat-sender': [string, string];
+			'by-chat-timestamp': [string, Date];
 		};
 	};
 	bookmarks: {
@@ -47,22 +124,98 @@ interface ChatViewerDB extends DBSchema {
 			chatId: string;
 			createdAt: Date;
 			note?: string;
+			tags?: string[];
+			color?: BookmarkColor;
+			collectionId?: string;
+			updatedAt?: Date;
 		};
 		indexes: {
 			'by-chat': string;
 			'by-createdAt': Date;
 			'by-messageId': string;
+			'by-tag': string;
+			'by-collection': string;
+		};
+	};
+	collections: {
+		key: string;
+		value: {
+			id: string;
+			name: string;
+			createdAt: Date;
+		};
+		indexes: {
+			'by-name': string;
+		};
+	};
+	media: {
+		key: string;
+		value: {
+			id: string;
+			messageId: string;
+			chatId: string;
+			fileName: string;
+			mimeType: string;
+			size: number;
+			blob: Blob;
+		};
+		indexes: {
+			'by-chat': string;
+			'by-messageId': string;
+		};
+	};
+	searchIndex: {
+		key: [string, string, number];
+		value: {
+			term: string;
+			chatId: string;
+			// First message index of the stored chunk these postings come from
+			chunk: number;
+			messageIndexes: number[];
+			frequencies: number[];
+		};
+		indexes: {
+			'by-chat': string;
+			'by-chat-term': [string, string];
+		};
+	};
+	settings: {
+		key: string;
+		value: {
+			key: string;
+			value: unknown;
 		};
 	};
 }
 
+/**
+ * Every record a backup carries; the search index is left out and rebuilt on first search
+ */
+export type DatabaseSnapshot = {
+	chats: ChatViewerDB['chats']['value'][];
+	messages: ChatViewerDB['messages']['value'][];
+	bookmarks: ChatViewerDB['bookmarks']['value'][];
+	collections: ChatViewerDB['collections']['value'][];
+	media: ChatViewerDB['media']['value'][];
+	settings: ChatViewerDB['settings']['value'][];
+};
+
+/**
+ * Message returned by a ranked search, best match first
+ */
+export type RankedMessage = ChatViewerDB['messages']['value'] & { score: number };
+
 /**
  * Database service class for managing WhatsApp chat data with enterprise-grade indexing
  */
 class DatabaseService {
 	private db: IDBPDatabase<ChatViewerDB> | null = null;
 	private readonly DB_NAME = 'whatsapp-chat-viewer';
-	private readonly DB_VERSION = 2;
+	private readonly DB_VERSION = 9;
+	// Messages written per transaction; small enough to keep each commit quick
+	private readonly STORE_CHUNK_SIZE = 1000;
+	// Whole-word hits rank above hits that only match a word's prefix
+	private readonly EXACT_TERM_WEIGHT = 2;
 
 	/**
 	 * Initialize the database connection with optimized indexes
@@ -72,10 +225,14 @@ class DatabaseService {
 		log.info('Initializing database connection');
 		
 		try {
+			// An upgrade may rewrite every stored message, so only an open that never got that far times out
+			let upgrading = false;
+			
 			// Add timeout to database initialization
 			const dbPromise = openDB<ChatViewerDB>(this.DB_NAME, this.DB_VERSION, {
-				upgrade(db, oldVersion, newVersion, transaction) {
+				async upgrade(db, oldVersion, newVersion, transaction) {
 					console.log('DB: Running database upgrade', { oldVersion, newVersion });
+					upgrading = true;
 					
 					if (oldVersion < 1) {
 						// Chats store
@@ -102,11 +259,70 @@ class DatabaseService {
 						const bookmarkStore = transaction.objectStore('bookmarks');
 						bookmarkStore.createIndex('by-messageId', 'messageId');
 					}
+					
+					if (oldVersion < 3) {
+						// Media store for attachments from "Export with media" archives
+						const mediaStore = db.createObjectStore('media', { keyPath: 'id' });
+						mediaStore.createIndex('by-chat', 'chatId');
+						mediaStore.createIndex('by-messageId', 'messageId');
+					}
+					
+					if (oldVersion < 4) {
+						// Inverted index of message terms; existing chats are indexed on first search
+						const searchStore = db.createObjectStore('searchIndex', { keyPath: ['term', 'chatId', 'chunk'] });
+						searchStore.createIndex('by-chat', 'chatId');
+						searchStore.createIndex('by-chat-term', ['chatId', 'term']);
+					}
+					
+					if (oldVersion < 5) {
+						// Tags and collections for organising bookmarks
+						const bookmarkStore = transaction.objectStore('bookmarks');
+						bookmarkStore.createIndex('by-tag', 'tags', { multiEntry: true });
+						bookmarkStore.createIndex('by-collection', 'collectionId');
+						
+						const collectionStore = db.createObjectStore('collections', { keyPath: 'id' });
+						collectionStore.createIndex('by-name', 'name');
+					}
+					
+					if (oldVersion < 6) {
+						// App-wide preferences, kept in the database so backups carry them
+						db.createObjectStore('settings', { keyPath: 'key' });
+					}
+					
+					if (oldVersion < 7) {
+						// Classify messages stored before message kinds existed; awaiting only this transaction's
+						// requests keeps it open, so the database doesn't open until every message has a kind
+						try {
+							let cursor = await transaction.objectStore('messages').openCursor();
+							while (cursor) {
+								await cursor.update({ ...cursor.value, kind: MessageClassifier.classify(cursor.value) });
+								cursor = await cursor.continue();
+							}
+						} catch (error) {
+							log.error('Failed to classify stored messages:', error);
+							// A failed request has already aborted the upgrade; anything else must abort it so the open fails
+							if (!(error instanceof DOMException)) transaction.abort();
+							return;
+						}
+					}
+					
+					if (oldVersion < 8) {
+						// Chat-scoped lookups that the global sender index can only answer by scanning every chat
+						const messageStore = transaction.objectStore('messages');
+						messageStore.createIndex('by-chat-sender', ['chatId', 'sender']);
+					}
+					
+					if (oldVersion < 9) {
+						// Likewise for the timestamp index, which the calendar and day separators read per chat
+						transaction.objectStore('messages').createIndex('by-chat-timestamp', ['chatId', 'timestamp']);
+					}
 				}
 			});
 			
 			const timeoutPromise = new Promise<never>((_, reject) => {
-				setTimeout(() => reject(new Error('Database initialization timeout after 10 seconds')), 10000);
+				setTimeout(() => {
+					if (!upgrading) reject(new Error('Database initialization timeout after 10 seconds'));
+				}, 10000);
 			});
 			
 			this.db = await Promise.race([dbPromise, timeoutPromise]);
@@ -122,70 +338,218 @@ class DatabaseService {
 	}
 
 	/**
-	 * Store a new chat with all its messages in a single optimized transaction
+	 * Store a new chat, writing its messages in chunked transactions
+	 *
+	 * The chat record is written first and marked incomplete, so an interrupted import
+	 * leaves a record that can be resumed or cleaned up instead of orphaned message rows.
 	 */
 	async storeChat(
 		id: string,
 		name: string,
 		participants: string[],
-		messages: Array<{
-			timestamp: Date;
-			sender: string;
-			content: string;
-		}>,
-		rawContent: string
+		messages: StoredMessageInput[],
+		rawContent: string,
+		media?: StoredMediaInput,
+		format?: DateFormat,
+		identity?: string | null,
+		onProgress?: StoreProgressCallback
 	): Promise<void> {
 		log.info('Storing new chat');
 		if (!this.db) await this.init();
 
-		const tx = this.db!.transaction(['chats', 'messages'], 'readwrite');
-
 		try {
 			// Store chat metadata
-			const chat = {
+			await this.db!.put('chats', {
 				id,
 				name,
 				participants,
 				createdAt: new Date(),
 				lastMessageAt: messages.length > 0 ? messages[messages.length - 1].timestamp : new Date(),
 				messageCount: messages.length,
-				rawContent
-			};
-
-			await tx.objectStore('chats').put(chat);
-
-			// Store messages one by one to avoid Promise.all issues
-			const messageStore = tx.objectStore('messages');
-			
-			console.log('DB STORE: About to process', messages.length, 'messages sequentially');
-			
-			for (let i = 0; i < messages.length; i++) {
-				console.log('DB STORE: Processing message', i + 1, 'of', messages.length);
-				const message = messages[i];
-				await messageStore.put({
-					id: `${id}-${i}`,
-					chatId: id,
-					timestamp: message.timestamp,
-					sender: message.sender,
-					content: message.content,
-					messageIndex: i
-				});
-			}
-			
-			console.log('DB STORE: All messages processed');
+				rawContent,
+				importStatus: 'incomplete',
+				storedMessageCount: 0,
+				importFormat: format,
+				searchIndexed: true,
+				identity
+			});
 
-			// Ensure transaction is fully committed
-			console.log('DB STORE: About to await tx.done');
-			await tx.done;
-			console.log('DB STORE: tx.done completed');
+			await this.storeMessageChunks(id, messages, 0, media, onProgress);
 			log.info('Chat stored successfully');
 		} catch (error) {
 			log.error('Error storing chat:', error);
-			// Transaction will auto-abort on error
 			throw error;
 		}
 	}
 
+	/**
+	 * Continue an interrupted import from the last committed chunk
+	 */
+	async resumeChat(
+		id: string,
+		messages: StoredMessageInput[],
+		media?: StoredMediaInput,
+		onProgress?: StoreProgressCallback
+	): Promise<void> {
+		log.info('Resuming interrupted chat import');
+		if (!this.db) await this.init();
+
+		const chat = await this.db!.get('chats', id);
+		if (!chat) throw new Error('Chat not found');
+		if (messages.length !== chat.messageCount) {
+			throw new Error('Chat content no longer matches the interrupted import');
+		}
+
+		await this.storeMessageChunks(id, messages, chat.storedMessageCount ?? 0, media, onProgress);
+	}
+
+	/**
+	 * Write messages in chunks, advancing the chat's stored count in the same transaction as each chunk
+	 */
+	private async storeMessageChunks(
+		id: string,
+		messages: StoredMessageInput[],
+		startIndex: number,
+		media?: StoredMediaInput,
+		onProgress?: StoreProgressCallback
+	): Promise<void> {
+		let start = startIndex;
+
+		do {
+			const end = Math.min(start + this.STORE_CHUNK_SIZE, messages.length);
+			const tx = this.db!.transaction(['chats', 'messages', 'media', 'searchIndex'], 'readwrite');
+			const chatStore = tx.objectStore('chats');
+
+			const chat = await chatStore.get(id);
+			if (!chat) {
+				tx.abort();
+				await tx.done.catch(() => undefined);
+				throw new Error('Chat was deleted while it was being imported');
+			}
+
+			const writes = this.queueMessageWrites(tx, id, messages.slice(start, end), start, media);
+
+			chat.storedMessageCount = end;
+			if (end === messages.length) {
+				chat.importStatus = 'complete';
+			}
+			writes.push(chatStore.put(chat));
+
+			// Issue every write before awaiting so the chunk commits in one go
+			await Promise.all([...writes, tx.done]);
+			console.log('DB STORE: Committed messages', start, 'to', end, 'of', messages.length);
+
+			onProgress?.(end, messages.length);
+			start = end;
+		} while (start < messages.length);
+	}
+
+	/**
+	 * Append messages from a newer export of a stored chat
+	 *
+	 * New messages continue the chat's message indexes, so existing IDs and the bookmarks
+	 * pointing at them are untouched. Each chunk advances the chat's count and last message
+	 * date in its own transaction; the raw content and participants are swapped in with the
+	 * last one, so an interrupted merge leaves a consistent chat that a retry can finish.
+	 */
+	async appendMessages(
+		id: string,
+		messages: StoredMessageInput[],
+		rawContent: string,
+		participants: string[],
+		media?: StoredMediaInput,
+		onProgress?: StoreProgressCallback
+	): Promise<void> {
+		log.info('Appending messages to a chat');
+		if (!this.db) await this.init();
+
+		let start = 0;
+		do {
+			const end = Math.min(start + this.STORE_CHUNK_SIZE, messages.length);
+			const tx = this.db!.transaction(['chats', 'messages', 'media', 'searchIndex'], 'readwrite');
+			const chatStore = tx.objectStore('chats');
+
+			const chat = await chatStore.get(id);
+			if (!chat) {
+				tx.abort();
+				await tx.done.catch(() => undefined);
+				throw new Error('Chat was deleted while new messages were being added');
+			}
+
+			const firstIndex = chat.messageCount;
+			const writes = this.queueMessageWrites(tx, id, messages.slice(start, end), firstIndex, media);
+
+			chat.messageCount = firstIndex + (end - start);
+			chat.storedMessageCount = chat.messageCount;
+			if (end > start) {
+				chat.lastMessageAt = messages[end - 1].timestamp;
+			}
+			if (end === messages.length) {
+				chat.rawContent = rawContent;
+				chat.participants = [...new Set([...chat.participants, ...participants])];
+			}
+			writes.push(chatStore.put(chat));
+
+			await Promise.all([...writes, tx.done]);
+			console.log('DB STORE: Appended messages', start, 'to', end, 'of', messages.length);
+
+			onProgress?.(end, messages.length);
+			start = end;
+		} while (start < messages.length);
+	}
+
+	/**
+	 * Queue the message, media and search index writes for one chunk of a chat
+	 */
+	private queueMessageWrites(
+		tx: IDBPTransaction<ChatViewerDB, ('chats' | 'messages' | 'media' | 'searchIndex')[], 'readwrite'>,
+		id: string,
+		messages: StoredMessageInput[],
+		firstIndex: number,
+		media?: StoredMediaInput
+	): Promise<unknown>[] {
+		const messageStore = tx.objectStore('messages');
+		const mediaStore = tx.objectStore('media');
+		const searchStore = tx.objectStore('searchIndex');
+		const writes: Promise<unknown>[] = [];
+
+		messages.forEach((message, offset) => {
+			const i = firstIndex + offset;
+			writes.push(messageStore.put({
+				id: `${id}-${i}`,
+				chatId: id,
+				timestamp: message.timestamp,
+				sender: message.sender,
+				content: message.content,
+				messageIndex: i,
+				attachment: message.attachment,
+				kind: message.kind ?? MessageClassifier.classify(message)
+			}));
+
+			// Link the attachment blob from the archive, if the export included it
+			const file = message.attachment ? media?.get(message.attachment) : undefined;
+			if (file) {
+				writes.push(mediaStore.put({
+					id: `${id}-${i}-media`,
+					messageId: `${id}-${i}`,
+					chatId: id,
+					fileName: file.fileName,
+					mimeType: file.mimeType,
+					size: file.blob.size,
+					blob: file.blob
+				}));
+			}
+		});
+
+		// Postings are keyed by chunk, so a resumed chunk overwrites rather than duplicates them
+		const postings = SearchTokenizer.buildPostings(messages, firstIndex);
+		for (const [term, entry] of postings) {
+			writes.push(searchStore.put({ term, chatId: id, chunk: firstIndex, ...entry }));
+		}
+
+		return writes;
+	}
+
 	/**
 	 * Get all chats sorted by last message date
 	 */
@@ -207,7 +571,21 @@ class DatabaseService {
 	}
 
 	/**
-	 * Get messages for a chat with pagination support
+	 * Set which participant of a chat is the user, or null for an observer
+	 */
+	async setChatIdentity(chatId: string, identity: string | null): Promise<void> {
+		log.info('Setting chat identity');
+		if (!this.db) await this.init();
+		
+		const chat = await this.db!.get('chats', chatId);
+		if (!chat) throw new Error('Chat not found');
+		await this.db!.put('chats', { ...chat, identity });
+	}
+
+	/**
+	 * Get a run of a chat's messages by position, oldest first
+	 *
+	 * Message indexes are consecutive, so the page is a single range of the compound index.
 	 */
 	async getMessages(
 		chatId: string, 
@@ -216,79 +594,177 @@ class DatabaseService {
 	): Promise<ChatViewerDB['messages']['value'][]> {
 		log.info('Getting messages for a chat with pagination');
 		if (!this.db) await this.init();
-		
-		const tx = this.db!.transaction('messages', 'readonly');
-		const index = tx.store.index('by-chat-index');
-		
-		// Use the compound index efficiently with proper range
-		const range = IDBKeyRange.bound([chatId, offset], [chatId, Infinity]);
-		let cursor = await index.openCursor(range);
-		
+		if (limit <= 0) return [];
+
+		return this.db!.getAllFromIndex(
+			'messages',
+			'by-chat-index',
+			IDBKeyRange.bound([chatId, offset], [chatId, offset + limit - 1])
+		);
+	}
+
+	/**
+	 * Count the messages stored for a chat
+	 */
+	async countMessages(chatId: string): Promise<number> {
+		log.info('Counting the messages of a chat');
+		if (!this.db) await this.init();
+
+		return this.db!.countFromIndex('messages', 'by-chat', chatId);
+	}
+
+	/**
+	 * Get every message of a chat in order, for exports
+	 */
+	async getAllMessagesForChat(chatId: string): Promise<ChatViewerDB['messages']['value'][]> {
+		log.info('Getting all messages for a chat');
+		if (!this.db) await this.init();
+
+		return this.db!.getAllFromIndex(
+			'messages',
+			'by-chat-index',
+			IDBKeyRange.bound([chatId, 0], [chatId, Infinity])
+		);
+	}
+
+	/**
+	 * Read a chat's messages in order, one batch of consecutive indexes at a time
+	 */
+	async *streamMessages(chatId: string, batchSize = this.STORE_CHUNK_SIZE): AsyncGenerator<ChatViewerDB['messages']['value'][]> {
+		log.info('Streaming the messages of a chat');
+		if (!this.db) await this.init();
+
+		for (let start = 0; ; start += batchSize) {
+			const batch = await this.db!.getAllFromIndex(
+				'messages',
+				'by-chat-index',
+				IDBKeyRange.bound([chatId, start], [chatId, start + batchSize - 1])
+			);
+			if (batch.length === 0) return;
+			yield batch;
+		}
+	}
+
+	/**
+	 * Get the last messages of a chat, oldest first
+	 */
+	async getLastMessages(chatId: string, count: number): Promise<ChatViewerDB['messages']['value'][]> {
+		log.info('Getting the last messages of a chat');
+		if (!this.db) await this.init();
+
+		const range = IDBKeyRange.bound([chatId, 0], [chatId, Infinity]);
+		let cursor = await this.db!.transaction('messages').store.index('by-chat-index').openCursor(range, 'prev');
 		const messages: ChatViewerDB['messages']['value'][] = [];
-		let count = 0;
-		let iterations = 0;
-		const MAX_ITERATIONS = 10000; // Safety limit to prevent infinite loops
-		
-		while (cursor && count < limit && iterations < MAX_ITERATIONS) {
-			messages.push(cursor.value);
-			count++;
-			iterations++;
+		while (cursor && messages.length < count) {
+			messages.unshift(cursor.value);
 			cursor = await cursor.continue();
 		}
-		
-		if (iterations >= MAX_ITERATIONS) {
-			console.error('getMessages: Hit iteration limit, possible infinite loop detected');
-		}
-		
 		return messages;
 	}
 
 	/**
-	 * Get all messages for a chat (for searching/filtering) - FIXED: Now uses proper ordering
+	 * Count a chat's messages per local day over a time range, through the chat and timestamp index
+	 *
+	 * Only the index keys in the range are read, never the messages themselves.
 	 */
-	async getAllMessagesForChat(chatId: string): Promise<ChatViewerDB['messages']['value'][]> {
-		console.log('DB: getAllMessagesForChat called with chatId:', chatId);
-		log.info('Getting all messages for a chat with proper ordering');
-		
-		try {
-			if (!this.db) {
-				console.log('DB: Database not initialized, calling init()');
-				await this.init();
-			}
-			
-			console.log('DB: About to use by-chat-index for proper ordering');
-			const tx = this.db!.transaction('messages', 'readonly');
-			const index = tx.store.index('by-chat-index');
-			
-			// Use the compound index for proper ordering by messageIndex
-			const range = IDBKeyRange.bound([chatId, 0], [chatId, Infinity]);
-			let cursor = await index.openCursor(range);
-			
-			const messages: ChatViewerDB['messages']['value'][] = [];
-			let iterations = 0;
-			const MAX_ITERATIONS = 50000; // Safety limit to prevent infinite loops
-			
-			console.log('DB: Starting cursor iteration for ordered messages');
-			while (cursor && iterations < MAX_ITERATIONS) {
-				messages.push(cursor.value);
-				iterations++;
+	async countMessagesByDay(chatId: string, from: Date, to: Date): Promise<Map<string, number>> {
+		log.info('Counting messages per day');
+		if (!this.db) await this.init();
+
+		const counts = new Map<string, number>();
+		const range = IDBKeyRange.bound([chatId, from], [chatId, to], false, true);
+		let cursor = await this.db!.transaction('messages').store.index('by-chat-timestamp').openKeyCursor(range);
+		while (cursor) {
+			const key = CalendarMonth.dayKey(cursor.key[1]);
+			counts.set(key, (counts.get(key) ?? 0) + 1);
+			cursor = await cursor.continue();
+		}
+		return counts;
+	}
+
+	/**
+	 * The messages that open each local day of a chat, in chat order, through the chat and timestamp index
+	 *
+	 * Once a day's first message is found the cursor jumps to the next midnight, so a chat
+	 * costs a few reads per day rather than one per message.
+	 */
+	async getDayStarts(chatId: string): Promise<{ messageIndex: number; date: Date }[]> {
+		log.info('Finding where each day of a chat starts');
+		if (!this.db) await this.init();
+
+		// Every [chatId, timestamp] key sorts between these two
+		const range = IDBKeyRange.bound([chatId], [chatId, []]);
+		let cursor = await this.db!.transaction('messages').store.index('by-chat-timestamp').openCursor(range);
+		const days: { messageIndex: number; date: Date }[] = [];
+		while (cursor) {
+			const { timestamp, messageIndex } = cursor.value;
+			const day = days[days.length - 1];
+			if (day && timestamp.getTime() === day.date.getTime()) {
+				// Messages sent in the same minute share a timestamp, so the lowest index wins
+				day.messageIndex = Math.min(day.messageIndex, messageIndex);
+				cursor = await cursor.continue();
+			} else if (day && CalendarMonth.dayKey(timestamp) === CalendarMonth.dayKey(day.date)) {
+				const nextDay = new Date(day.date.getFullYear(), day.date.getMonth(), day.date.getDate() + 1);
+				cursor = await cursor.continue([chatId, nextDay]);
+			} else {
+				days.push({ messageIndex, date: timestamp });
 				cursor = await cursor.continue();
 			}
-			
-			if (iterations >= MAX_ITERATIONS) {
-				console.error('getAllMessagesForChat: Hit iteration limit, possible infinite loop detected');
+		}
+		return days.sort((a, b) => a.messageIndex - b.messageIndex);
+	}
+
+	/**
+	 * Index of a chat's first message in a time range, or null when it has none there
+	 */
+	async findFirstMessageIndex(chatId: string, from: Date, to: Date): Promise<number | null> {
+		log.info('Finding the first message in a time range');
+		if (!this.db) await this.init();
+
+		// Messages sent in the same minute share a timestamp, so the lowest index wins
+		const range = IDBKeyRange.bound([chatId, from], [chatId, to], false, true);
+		let cursor = await this.db!.transaction('messages').store.index('by-chat-timestamp').openCursor(range);
+		let first: { timestamp: number; messageIndex: number } | null = null;
+		while (cursor) {
+			const message = cursor.value;
+			if (first && message.timestamp.getTime() > first.timestamp) break;
+			if (!first || message.messageIndex < first.messageIndex) {
+				first = { timestamp: message.timestamp.getTime(), messageIndex: message.messageIndex };
 			}
-			
-			console.log('DB: getAllMessagesForChat completed with proper ordering, result count:', messages.length);
-			console.log('DB: First few message indices:', messages.slice(0, 5).map(m => `${m.messageIndex}: ${m.content.substring(0, 50)}`));
-			console.log('DB: Last few message indices:', messages.slice(-5).map(m => `${m.messageIndex}: ${m.content.substring(0, 50)}`));
-			
-			return messages;
-		} catch (error) {
-			console.error('DB: Error in getAllMessagesForChat:', error);
-			console.error('DB: Error stack:', error instanceof Error ? error.stack : 'No stack available');
-			throw error;
+			cursor = await cursor.continue();
 		}
+		return first?.messageIndex ?? null;
+	}
+
+	/**
+	 * Get a chat's system messages in order
+	 */
+	async getSystemMessages(chatId: string): Promise<ChatViewerDB['messages']['value'][]> {
+		log.info('Getting the system messages of a chat');
+		if (!this.db) await this.init();
+
+		// System lines are few, so the sender index beats reading the whole chat
+		const messages = await this.db!.getAllFromIndex('messages', 'by-chat-sender', [chatId, 'System']);
+		// IDs tie-break equal index keys as strings, so `chat-10` would come before `chat-9`
+		return messages.sort((a, b) => a.messageIndex - b.messageIndex);
+	}
+
+	/**
+	 * Get a single message by ID
+	 */
+	async getMessage(messageId: string): Promise<ChatViewerDB['messages']['value'] | undefined> {
+		log.info('Getting message by ID');
+		if (!this.db) await this.init();
+		return await this.db!.get('messages', messageId);
+	}
+
+	/**
+	 * Get the stored attachment for a message, if any
+	 */
+	async getMediaForMessage(messageId: string): Promise<ChatViewerDB['media']['value'] | undefined> {
+		log.info('Getting media for a message');
+		if (!this.db) await this.init();
+		return await this.db!.getFromIndex('media', 'by-messageId', messageId);
 	}
 
 	/**
@@ -311,6 +787,30 @@ class DatabaseService {
 		return bookmarkId;
 	}
 
+	/**
+	 * Update a bookmark's note, tags, colour or collection; null clears a field
+	 */
+	async updateBookmark(bookmarkId: string, changes: BookmarkChanges): Promise<void> {
+		log.info('Updating a bookmark');
+		if (!this.db) await this.init();
+		
+		const tx = this.db!.transaction('bookmarks', 'readwrite');
+		const bookmark = await tx.store.get(bookmarkId);
+		if (!bookmark) {
+			tx.abort();
+			await tx.done.catch(() => undefined);
+			throw new Error('Bookmark not found');
+		}
+		
+		if (changes.note !== undefined) bookmark.note = changes.note.trim() || undefined;
+		if (changes.tags !== undefined) bookmark.tags = changes.tags;
+		if (changes.color !== undefined) bookmark.color = changes.color ?? undefined;
+		if (changes.collectionId !== undefined) bookmark.collectionId = changes.collectionId ?? undefined;
+		bookmark.updatedAt = new Date();
+		
+		await Promise.all([tx.store.put(bookmark), tx.done]);
+	}
+
 	/**
 	 * Remove a bookmark
 	 */
@@ -363,32 +863,272 @@ class DatabaseService {
 	}
 
 	/**
-	 * Search messages across all chats
+	 * Get all bookmark collections sorted by name
 	 */
-	async searchMessages(query: string, chatId?: string): Promise<ChatViewerDB['messages']['value'][]> {
-		log.info('Searching messages');
+	async getAllCollections(): Promise<ChatViewerDB['collections']['value'][]> {
+		log.info('Getting all collections');
+		if (!this.db) await this.init();
+		return await this.db!.getAllFromIndex('collections', 'by-name');
+	}
+
+	/**
+	 * Create a bookmark collection
+	 */
+	async addCollection(name: string): Promise<string> {
+		log.info('Adding a collection');
 		if (!this.db) await this.init();
 		
-		const lowerQuery = query.toLowerCase();
-		const results: ChatViewerDB['messages']['value'][] = [];
+		const collectionId = `collection-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+		await this.db!.put('collections', { id: collectionId, name, createdAt: new Date() });
+		return collectionId;
+	}
+
+	/**
+	 * Rename a bookmark collection
+	 */
+	async renameCollection(collectionId: string, name: string): Promise<void> {
+		log.info('Renaming a collection');
+		if (!this.db) await this.init();
 		
+		const collection = await this.db!.get('collections', collectionId);
+		if (!collection) throw new Error('Collection not found');
+		await this.db!.put('collections', { ...collection, name });
+	}
+
+	/**
+	 * Delete a collection; its bookmarks are kept but no longer belong to it
+	 */
+	async deleteCollection(collectionId: string): Promise<void> {
+		log.info('Deleting a collection');
+		if (!this.db) await this.init();
+		
+		const tx = this.db!.transaction(['collections', 'bookmarks'], 'readwrite');
+		await tx.objectStore('collections').delete(collectionId);
+		
+		const bookmarks = await tx.objectStore('bookmarks').index('by-collection').getAll(collectionId);
+		for (const bookmark of bookmarks) {
+			delete bookmark.collectionId;
+			await tx.objectStore('bookmarks').put(bookmark);
+		}
+		
+		await tx.done;
+	}
+
+	/**
+	 * Read an app-wide setting
+	 */
+	async getSetting<T>(key: string): Promise<T | undefined> {
+		log.info('Getting a setting');
+		if (!this.db) await this.init();
+		const setting = await this.db!.get('settings', key);
+		return setting?.value as T | undefined;
+	}
+
+	/**
+	 * Save an app-wide setting
+	 */
+	async setSetting(key: string, value: unknown): Promise<void> {
+		log.info('Saving a setting');
+		if (!this.db) await this.init();
+		await this.db!.put('settings', { key, value });
+	}
+
+	/**
+	 * Search messages across all chats, or one chat, for a parsed query
+	 *
+	 * When the query has words or phrases, the inverted index narrows the candidates:
+	 * each indexed term must match a word in the message, either whole or as a prefix.
+	 * Candidates are ranked by term frequency weighted by how rare each term is, with
+	 * whole-word hits counting more. Queries with only operators, regexes or exclusions
+	 * fall back to scanning the messages in scope. Either way every result is checked
+	 * against the full query, and ties are broken by recency.
+	 */
+	async searchMessages(query: SearchQuery, chatId?: string): Promise<RankedMessage[]> {
+		log.info('Searching messages');
+		if (!this.db) await this.init();
+
+		if (query.clauses.length === 0) return [];
+
+		const indexTerms = SearchQueryMatcher.indexTerms(query);
+		const results = indexTerms.length > 0
+			? await this.searchIndexedTerms(query, indexTerms, chatId)
+			: await this.scanMessages(query, chatId);
+
+		return results.sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime());
+	}
+
+	/**
+	 * Positions of a chat's messages that match a query, when given, and a filter, in chat order
+	 *
+	 * Only positions are kept, so matching most of a long chat costs a number per message
+	 * rather than the messages. Indexed query terms narrow the messages read; otherwise the
+	 * chat is read in order, a batch at a time, until `isCurrent` says the search is outdated.
+	 */
+	async findMatchingIndexes(
+		chatId: string,
+		query: SearchQuery | null,
+		filter: MessageFilter,
+		isCurrent: () => boolean = () => true
+	): Promise<number[]> {
+		log.info('Finding the messages of a chat that match a search');
+		if (!this.db) await this.init();
+
+		const matches = (message: ChatViewerDB['messages']['value']) =>
+			(!query || SearchQueryMatcher.matches(message, query)) && MessageFilterMatcher.matches(message, filter);
+		const indexTerms = query ? SearchQueryMatcher.indexTerms(query) : [];
+		const result: number[] = [];
+
+		if (indexTerms.length > 0) {
+			const candidates = await this.scoreIndexedTerms(indexTerms, chatId);
+			const messageStore = this.db!.transaction('messages').store;
+			for (const messageId of candidates.keys()) {
+				const message = await messageStore.get(messageId);
+				if (message && matches(message)) result.push(message.messageIndex);
+			}
+			return result.sort((a, b) => a - b);
+		}
+
+		for await (const batch of this.streamMessages(chatId)) {
+			if (!isCurrent()) break;
+			for (const message of batch) {
+				if (matches(message)) result.push(message.messageIndex);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Rank candidates for the query's indexed terms, then check them against the whole query
+	 */
+	private async searchIndexedTerms(
+		query: SearchQuery,
+		indexTerms: string[],
+		chatId?: string
+	): Promise<RankedMessage[]> {
+		const scores = await this.scoreIndexedTerms(indexTerms, chatId);
+
+		const tx = this.db!.transaction('messages', 'readonly');
+		const results: RankedMessage[] = [];
+		for (const [messageId, score] of scores) {
+			const message = await tx.store.get(messageId);
+			if (message && SearchQueryMatcher.matches(message, query)) {
+				results.push({ ...message, score });
+			}
+		}
+		await tx.done;
+
+		return results;
+	}
+
+	/**
+	 * Score the messages containing every indexed term, by message ID, indexing chats that aren't yet
+	 */
+	private async scoreIndexedTerms(indexTerms: string[], chatId?: string): Promise<Map<string, number>> {
+		const chats = chatId
+			? [await this.db!.get('chats', chatId)].filter(chat => chat !== undefined)
+			: await this.db!.getAll('chats');
+		for (const chat of chats) {
+			if (!chat.searchIndexed) {
+				await this.buildSearchIndex(chat.id);
+			}
+		}
+		const totalMessages = chats.reduce((sum, chat) => sum + (chat.storedMessageCount ?? chat.messageCount), 0);
+
+		const searchStore = this.db!.transaction('searchIndex', 'readonly').store;
+		let scores: Map<string, number> | null = null;
+
+		for (const queryTerm of indexTerms) {
+			// Every term sharing the prefix, limited to the chat when one is given
+			const entries = chatId
+				? await searchStore.index('by-chat-term').getAll(
+					IDBKeyRange.bound([chatId, queryTerm], [chatId, queryTerm + '\uffff'])
+				)
+				: await searchStore.getAll(IDBKeyRange.bound([queryTerm], [queryTerm + '\uffff']));
+
+			const hits = new Map<string, number>();
+			for (const entry of entries) {
+				const weight = entry.term === queryTerm ? this.EXACT_TERM_WEIGHT : 1;
+				entry.messageIndexes.forEach((messageIndex, i) => {
+					const messageId = `${entry.chatId}-${messageIndex}`;
+					hits.set(messageId, Math.max(hits.get(messageId) ?? 0, entry.frequencies[i] * weight));
+				});
+			}
+
+			const idf = Math.log(1 + totalMessages / Math.max(hits.size, 1));
+			const previous: Map<string, number> | null = scores;
+			const next = new Map<string, number>();
+			for (const [messageId, hitScore] of hits) {
+				if (previous && !previous.has(messageId)) continue;
+				next.set(messageId, (previous?.get(messageId) ?? 0) + hitScore * idf);
+			}
+			scores = next;
+
+			if (scores.size === 0) break;
+		}
+
+		return scores ?? new Map();
+	}
+
+	/**
+	 * Check every message in scope against a query that the index can't narrow
+	 */
+	private async scanMessages(query: SearchQuery, chatId?: string): Promise<RankedMessage[]> {
+		const results: RankedMessage[] = [];
+
 		const tx = this.db!.transaction('messages', 'readonly');
 		const index = chatId ? tx.store.index('by-chat') : tx.store;
 		const range = chatId ? IDBKeyRange.only(chatId) : undefined;
-		
+
 		let cursor = await index.openCursor(range);
-		
+
 		while (cursor) {
-			if (cursor.value.content.toLowerCase().includes(lowerQuery) ||
-				cursor.value.sender.toLowerCase().includes(lowerQuery)) {
-				results.push(cursor.value);
+			if (SearchQueryMatcher.matches(cursor.value, query)) {
+				results.push({ ...cursor.value, score: 0 });
 			}
 			cursor = await cursor.continue();
 		}
-		
+
 		return results;
 	}
 
+	/**
+	 * Index a chat stored before the search index existed, one chunk per transaction
+	 */
+	private async buildSearchIndex(chatId: string): Promise<void> {
+		log.info('Building search index for a chat');
+
+		// Drop postings written for messages appended since, which are indexed again below
+		const clearTx = this.db!.transaction('searchIndex', 'readwrite');
+		const staleKeys = await clearTx.store.index('by-chat').getAllKeys(chatId);
+		await Promise.all([...staleKeys.map(key => clearTx.store.delete(key)), clearTx.done]);
+
+		let start = 0;
+
+		while (true) {
+			const messages = await this.db!.getAllFromIndex(
+				'messages',
+				'by-chat-index',
+				IDBKeyRange.bound([chatId, start], [chatId, start + this.STORE_CHUNK_SIZE - 1])
+			);
+			if (messages.length === 0) break;
+
+			const tx = this.db!.transaction('searchIndex', 'readwrite');
+			const writes: Promise<unknown>[] = [];
+			for (const [term, entry] of SearchTokenizer.buildPostings(messages, start)) {
+				writes.push(tx.store.put({ term, chatId, chunk: start, ...entry }));
+			}
+			await Promise.all([...writes, tx.done]);
+
+			start += this.STORE_CHUNK_SIZE;
+		}
+
+		const chat = await this.db!.get('chats', chatId);
+		if (chat) {
+			await this.db!.put('chats', { ...chat, searchIndexed: true });
+		}
+		console.log('DB SEARCH: Indexed chat', chatId, 'through message', start);
+	}
+
 	/**
 	 * Delete a chat and all its messages
 	 */
@@ -396,7 +1136,7 @@ class DatabaseService {
 		log.info('Deleting a chat');
 		if (!this.db) await this.init();
 		
-		const tx = this.db!.transaction(['chats', 'messages', 'bookmarks'], 'readwrite');
+		const tx = this.db!.transaction(['chats', 'messages', 'bookmarks', 'media', 'searchIndex'], 'readwrite');
 		
 		// Delete chat
 		await tx.objectStore('chats').delete(chatId);
@@ -413,7 +1153,185 @@ class DatabaseService {
 			await tx.objectStore('bookmarks').delete(bookmarkKey);
 		}
 		
+		// Delete all media for this chat
+		const mediaKeys = await tx.objectStore('media').index('by-chat').getAllKeys(chatId);
+		for (const mediaKey of mediaKeys) {
+			await tx.objectStore('media').delete(mediaKey);
+		}
+		
+		// Delete all search index entries for this chat
+		const indexKeys = await tx.objectStore('searchIndex').index('by-chat').getAllKeys(chatId);
+		for (const indexKey of indexKeys) {
+			await tx.objectStore('searchIndex').delete(indexKey);
+		}
+		
+		await tx.done;
+	}
+
+	/**
+	 * Read every record a backup needs
+	 */
+	async exportSnapshot(): Promise<DatabaseSnapshot> {
+		log.info('Reading the database for a backup');
+		if (!this.db) await this.init();
+
+		const tx = this.db!.transaction(['chats', 'messages', 'bookmarks', 'collections', 'media', 'settings'], 'readonly');
+		const [chats, messages, bookmarks, collections, media, settings] = await Promise.all([
+			tx.objectStore('chats').getAll(),
+			tx.objectStore('messages').getAll(),
+			tx.objectStore('bookmarks').getAll(),
+			tx.objectStore('collections').getAll(),
+			tx.objectStore('media').getAll(),
+			tx.objectStore('settings').getAll()
+		]);
 		await tx.done;
+
+		return { chats, messages, bookmarks, collections, media, settings };
+	}
+
+	/**
+	 * Write a backup into the database
+	 *
+	 * When merging, a chat whose ID already exists is either skipped or replaced wholesale,
+	 * bookmarks included. Bookmarks clash on their ID or on the message they point at, and
+	 * are dropped when their chat or message isn't there. Collections with the same name as
+	 * an existing one are folded into it. Each chat is marked incomplete until its messages
+	 * are written, so an interrupted restore can be resumed or discarded like an import.
+	 */
+	async restoreSnapshot(
+		snapshot: DatabaseSnapshot,
+		mode: RestoreMode,
+		conflicts: RestoreConflictPolicy,
+		onProgress?: StoreProgressCallback
+	): Promise<RestoreSummary> {
+		log.info('Restoring the database from a backup');
+		if (!this.db) await this.init();
+
+		if (mode === 'replace') {
+			const stores = ['chats', 'messages', 'bookmarks', 'collections', 'media', 'searchIndex', 'settings'] as const;
+			const tx = this.db!.transaction([...stores], 'readwrite');
+			await Promise.all([...stores.map(name => tx.objectStore(name).clear()), tx.done]);
+		}
+
+		// Chats
+		const existingChatIds = new Set(await this.db!.getAllKeys('chats'));
+		const restoredChatIds = new Set<string>();
+		let chatsSkipped = 0;
+		for (const chat of snapshot.chats) {
+			if (existingChatIds.has(chat.id)) {
+				if (conflicts === 'keep-existing') {
+					chatsSkipped++;
+					continue;
+				}
+				await this.deleteChat(chat.id);
+			}
+			restoredChatIds.add(chat.id);
+		}
+		const chats = snapshot.chats.filter(chat => restoredChatIds.has(chat.id));
+
+		// Collections, mapping each backup ID to the collection its bookmarks end up in
+		const existingCollections = await this.db!.getAll('collections');
+		const collectionIds = new Map<string, string>();
+		const collections: ChatViewerDB['collections']['value'][] = [];
+		for (const collection of snapshot.collections) {
+			const sameId = existingCollections.find(c => c.id === collection.id);
+			const sameName = existingCollections.find(c => c.name.toLowerCase() === collection.name.toLowerCase());
+			if (!sameId && sameName) {
+				collectionIds.set(collection.id, sameName.id);
+				continue;
+			}
+			collectionIds.set(collection.id, collection.id);
+			if (!sameId || conflicts === 'use-backup') {
+				collections.push(collection);
+			}
+		}
+
+		// Bookmarks
+		const existingBookmarks = await this.db!.getAll('bookmarks');
+		const bookmarkIds = new Set(existingBookmarks.map(bookmark => bookmark.id));
+		const bookmarkByMessage = new Map(existingBookmarks.map(bookmark => [bookmark.messageId, bookmark.id]));
+		const replacedBookmarkIds: string[] = [];
+		const bookmarks: ChatViewerDB['bookmarks']['value'][] = [];
+		let bookmarksSkipped = 0;
+		for (const bookmark of snapshot.bookmarks) {
+			// Bookmarks in a kept chat only survive if the same message is there
+			const hasMessage = restoredChatIds.has(bookmark.chatId) ||
+				(existingChatIds.has(bookmark.chatId) && await this.db!.getKey('messages', bookmark.messageId) !== undefined);
+			if (!hasMessage) {
+				bookmarksSkipped++;
+				continue;
+			}
+
+			const clash = bookmarkIds.has(bookmark.id) ? bookmark.id : bookmarkByMessage.get(bookmark.messageId);
+			if (clash) {
+				if (conflicts === 'keep-existing') {
+					bookmarksSkipped++;
+					continue;
+				}
+				replacedBookmarkIds.push(clash);
+			}
+
+			const collectionId = bookmark.collectionId ? collectionIds.get(bookmark.collectionId) : undefined;
+			bookmarks.push({ ...bookmark, collectionId });
+		}
+
+		// Settings
+		const existingSettingKeys = new Set(await this.db!.getAllKeys('settings'));
+		const settings = snapshot.settings.filter(setting =>
+			!existingSettingKeys.has(setting.key) || conflicts === 'use-backup');
+
+		// Messages and media go in between the incomplete and final chat records
+		// Backups made before message kinds existed carry messages without one
+		const messages = snapshot.messages
+			.filter(message => restoredChatIds.has(message.chatId))
+			.map(message => message.kind ? message : { ...message, kind: MessageClassifier.classify(message) });
+		const media = snapshot.media.filter(file => restoredChatIds.has(file.chatId));
+
+		await this.putInChunks('chats', chats.map(chat => ({
+			...chat,
+			importStatus: 'incomplete' as const,
+			storedMessageCount: 0,
+			searchIndexed: false
+		})));
+		await this.putInChunks('messages', messages, stored => onProgress?.(stored, messages.length));
+		await this.putInChunks('media', media);
+		await this.putInChunks('chats', chats.map(chat => ({ ...chat, searchIndexed: false })));
+
+		const tx = this.db!.transaction('bookmarks', 'readwrite');
+		await Promise.all([...replacedBookmarkIds.map(id => tx.store.delete(id)), tx.done]);
+		await this.putInChunks('collections', collections);
+		await this.putInChunks('bookmarks', bookmarks);
+		await this.putInChunks('settings', settings);
+
+		log.info('Backup restored');
+		return {
+			chatsRestored: chats.length,
+			chatsSkipped,
+			messagesRestored: messages.length,
+			bookmarksRestored: bookmarks.length,
+			bookmarksSkipped,
+			collectionsRestored: collections.length
+		};
+	}
+
+	/**
+	 * Put records into a store, one transaction per chunk
+	 */
+	private async putInChunks<Name extends StoreNames<ChatViewerDB>>(
+		storeName: Name,
+		records: ChatViewerDB[Name]['value'][],
+		onChunk?: (storedCount: number) => void
+	): Promise<void> {
+		for (let start = 0; start < records.length; start += this.STORE_CHUNK_SIZE) {
+			const end = Math.min(start + this.STORE_CHUNK_SIZE, records.length);
+			const tx = this.db!.transaction(storeName, 'readwrite');
+			const writes: Promise<unknown>[] = [];
+			for (let i = start; i < end; i++) {
+				writes.push(tx.store.put(records[i]));
+			}
+			await Promise.all([...writes, tx.done]);
+			onChunk?.(end);
+		}
 	}
 }
 
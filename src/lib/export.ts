@@ -0,0 +1,490 @@
+import type { Bookmark, Message } from './stores';
+import type { DateOrder } from './parser';
+
+/**
+ * A bookmark resolved to its message, with optional surrounding messages
+ */
+export interface BookmarkExportEntry {
+	bookmark: Bookmark;
+	chatName: string;
+	collectionName: string | null;
+	message: Message | null;
+	before: Message[];
+	after: Message[];
+}
+
+export type BookmarkExportFormat = 'markdown' | 'json' | 'csv';
+
+/**
+ * Serialized export ready to download
+ */
+export interface ExportFile {
+	content: string;
+	mimeType: string;
+	extension: string;
+}
+
+/**
+ * Turns a string into something safe to use as a file name
+ */
+export function toFileName(name: string): string {
+	return name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
+
+/**
+ * Offer content to the user as a file download
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string): void {
+	const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+	const url = URL.createObjectURL(blob);
+
+	const a = document.createElement('a');
+	a.href = url;
+	a.download = fileName;
+	document.body.appendChild(a);
+	a.click();
+	document.body.removeChild(a);
+
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Quote a CSV cell when it contains separators, quotes or line breaks
+ */
+export function csvCell(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Writes bookmark digests as Markdown, JSON or CSV
+ */
+export class BookmarkExporter {
+	private static readonly FILE_TYPES: Record<BookmarkExportFormat, Omit<ExportFile, 'content'>> = {
+		markdown: { mimeType: 'text/markdown', extension: 'md' },
+		json: { mimeType: 'application/json', extension: 'json' },
+		csv: { mimeType: 'text/csv', extension: 'csv' }
+	};
+
+	/**
+	 * Serialize entries in the requested format; `title` names the scope, e.g. a chat
+	 */
+	static export(entries: BookmarkExportEntry[], format: BookmarkExportFormat, title: string): ExportFile {
+		const content = format === 'markdown'
+			? this.toMarkdown(entries, title)
+			: format === 'json'
+				? this.toJson(entries, title)
+				: this.toCsv(entries);
+		return { ...this.FILE_TYPES[format], content };
+	}
+
+	/**
+	 * Readable digest grouped by chat, with context shown around each quoted message
+	 */
+	private static toMarkdown(entries: BookmarkExportEntry[], title: string): string {
+		const lines: string[] = [
+			`# Bookmarks: ${title}`,
+			'',
+			`Exported ${this.formatTimestamp(new Date())} · ${entries.length} bookmark${entries.length === 1 ? '' : 's'}`
+		];
+
+		let currentChat: string | null = null;
+		for (const entry of entries) {
+			if (entry.chatName !== currentChat) {
+				currentChat = entry.chatName;
+				lines.push('', `## ${entry.chatName}`);
+			}
+
+			const { message } = entry;
+			lines.push('', message
+				? `### ${message.sender} · ${this.formatTimestamp(message.timestamp)}`
+				: `### Message not found · bookmarked ${this.formatTimestamp(entry.bookmark.createdAt)}`);
+
+			for (const context of entry.before) {
+				lines.push(this.markdownContextLine(context));
+			}
+			if (entry.before.length > 0) lines.push('');
+
+			if (message) {
+				lines.push(...message.content.split('\n').map(line => `> ${line}`));
+			}
+
+			if (entry.after.length > 0) lines.push('');
+			for (const context of entry.after) {
+				lines.push(this.markdownContextLine(context));
+			}
+
+			if (entry.bookmark.note) {
+				lines.push('', `**Note:** ${entry.bookmark.note}`);
+			}
+
+			const labels = [
+				...(entry.bookmark.tags ?? []).map(tag => `#${tag}`),
+				...(entry.collectionName ? [`Collection: ${entry.collectionName}`] : [])
+			];
+			if (labels.length > 0) {
+				lines.push('', labels.join(' · '));
+			}
+		}
+
+		return lines.join('\n') + '\n';
+	}
+
+	/**
+	 * Full structured dump, including context messages
+	 */
+	private static toJson(entries: BookmarkExportEntry[], title: string): string {
+		const serializeMessage = (message: Message) => ({
+			id: message.id,
+			messageIndex: message.messageIndex,
+			timestamp: message.timestamp.toISOString(),
+			sender: message.sender,
+			content: message.content,
+			attachment: message.attachment ?? null
+		});
+
+		return JSON.stringify({
+			title,
+			exportedAt: new Date().toISOString(),
+			bookmarks: entries.map(entry => ({
+				id: entry.bookmark.id,
+				chatId: entry.bookmark.chatId,
+				chatName: entry.chatName,
+				createdAt: entry.bookmark.createdAt.toISOString(),
+				note: entry.bookmark.note ?? null,
+				tags: entry.bookmark.tags ?? [],
+				color: entry.bookmark.color ?? null,
+				collection: entry.collectionName,
+				message: entry.message ? serializeMessage(entry.message) : null,
+				context: {
+					before: entry.before.map(serializeMessage),
+					after: entry.after.map(serializeMessage)
+				}
+			}))
+		}, null, 2);
+	}
+
+	/**
+	 * One row per bookmark; context messages are folded into two multi-line cells
+	 */
+	private static toCsv(entries: BookmarkExportEntry[]): string {
+		const header = [
+			'chat', 'sender', 'timestamp', 'content', 'note', 'tags', 'color', 'collection',
+			'bookmarked_at', 'context_before', 'context_after'
+		];
+		const contextCell = (messages: Message[]) =>
+			messages.map(message => `${message.sender}: ${message.content}`).join('\n');
+
+		const rows = entries.map(entry => [
+			entry.chatName,
+			entry.message?.sender ?? '',
+			entry.message?.timestamp.toISOString() ?? '',
+			entry.message?.content ?? '',
+			entry.bookmark.note ?? '',
+			(entry.bookmark.tags ?? []).join(' '),
+			entry.bookmark.color ?? '',
+			entry.collectionName ?? '',
+			entry.bookmark.createdAt.toISOString(),
+			contextCell(entry.before),
+			contextCell(entry.after)
+		]);
+
+		return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+	}
+
+	/**
+	 * Single Markdown line for a context message
+	 */
+	private static markdownContextLine(message: Message): string {
+		const content = message.content.replace(/\s*\n\s*/g, ' ');
+		return `- _${this.formatTimestamp(message.timestamp)} · ${message.sender}:_ ${content}`;
+	}
+
+	/**
+	 * Format a timestamp for the digest
+	 */
+	private static formatTimestamp(date: Date): string {
+		return date.toLocaleString('en-US', {
+			year: 'numeric',
+			month: 'short',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: '2-digit'
+		});
+	}
+}
+
+export type ChatExportFormat = 'html' | 'json' | 'csv' | 'text';
+
+/**
+ * What to include in a chat export and how to write it
+ */
+export interface ChatExportOptions {
+	format: ChatExportFormat;
+	/** Inclusive range, compared by calendar day */
+	from?: Date | null;
+	to?: Date | null;
+	/** Only these senders; empty or absent keeps everyone. System messages follow the range only. */
+	senders?: string[];
+	includeBookmarks: boolean;
+	/** Date layout and clock for the text format */
+	dateOrder: DateOrder;
+	clock: '12h' | '24h';
+}
+
+/**
+ * Chat metadata an export is written for
+ */
+export interface ExportChat {
+	name: string;
+	participants: string[];
+	// Participant whose messages are drawn as sent; null when the user only observes
+	identity: string | null;
+}
+
+/**
+ * Writes a chat's stored messages as an offline HTML page, JSON, CSV or WhatsApp-style text
+ */
+export class ChatExporter {
+	private static readonly FILE_TYPES: Record<ChatExportFormat, Omit<ExportFile, 'content'>> = {
+		html: { mimeType: 'text/html', extension: 'html' },
+		json: { mimeType: 'application/json', extension: 'json' },
+		csv: { mimeType: 'text/csv', extension: 'csv' },
+		text: { mimeType: 'text/plain', extension: 'txt' }
+	};
+
+	/**
+	 * Filter and serialize a chat; `bookmarks` is only used when the options ask for it
+	 */
+	static export(chat: ExportChat, messages: Message[], bookmarks: Bookmark[], options: ChatExportOptions): ExportFile {
+		const selected = this.filterMessages(messages, options);
+		const bookmarkByMessage = new Map(
+			options.includeBookmarks ? bookmarks.map(bookmark => [bookmark.messageId, bookmark]) : []
+		);
+
+		let content: string;
+		switch (options.format) {
+			case 'html':
+				content = this.toHtml(chat, selected, bookmarkByMessage);
+				break;
+			case 'json':
+				content = this.toJson(chat, selected, bookmarkByMessage, options);
+				break;
+			case 'csv':
+				content = this.toCsv(selected, bookmarkByMessage, options.includeBookmarks);
+				break;
+			default:
+				content = this.toText(selected, bookmarkByMessage, options);
+		}
+
+		return { ...this.FILE_TYPES[options.format], content };
+	}
+
+	/**
+	 * Apply the date-range and sender filters
+	 */
+	static filterMessages(messages: Message[], options: Pick<ChatExportOptions, 'from' | 'to' | 'senders'>): Message[] {
+		const start = options.from ? new Date(options.from.getFullYear(), options.from.getMonth(), options.from.getDate()) : null;
+		const end = options.to ? new Date(options.to.getFullYear(), options.to.getMonth(), options.to.getDate() + 1) : null;
+		const senders = options.senders && options.senders.length > 0 ? new Set(options.senders) : null;
+
+		return messages.filter(message =>
+			(!start || message.timestamp >= start) &&
+			(!end || message.timestamp < end) &&
+			(!senders || message.sender === 'System' || senders.has(message.sender))
+		);
+	}
+
+	/**
+	 * Re-render messages in the Android export layout with the chosen date format
+	 */
+	private static toText(messages: Message[], bookmarks: Map<string, Bookmark>, options: ChatExportOptions): string {
+		const lines: string[] = [];
+
+		for (const message of messages) {
+			const stamp = `${this.formatDate(message.timestamp, options.dateOrder)}, ${this.formatTime(message.timestamp, options.clock)}`;
+			lines.push(message.sender === 'System'
+				? `${stamp} - ${message.content}`
+				: `${stamp} - ${message.sender}: ${message.content}`);
+
+			const bookmark = bookmarks.get(message.id);
+			if (bookmark) {
+				lines.push(`    [Bookmarked${bookmark.note ? `: ${bookmark.note.replace(/\s*\n\s*/g, ' ')}` : ''}]`);
+			}
+		}
+
+		return lines.join('\n') + '\n';
+	}
+
+	/**
+	 * Structured dump of the chat and the selected messages
+	 */
+	private static toJson(
+		chat: ExportChat,
+		messages: Message[],
+		bookmarks: Map<string, Bookmark>,
+		options: ChatExportOptions
+	): string {
+		return JSON.stringify({
+			chat: { name: chat.name, participants: chat.participants },
+			exportedAt: new Date().toISOString(),
+			filters: {
+				from: options.from?.toISOString() ?? null,
+				to: options.to?.toISOString() ?? null,
+				senders: options.senders ?? []
+			},
+			messages: messages.map(message => {
+				const bookmark = bookmarks.get(message.id);
+				return {
+					messageIndex: message.messageIndex,
+					timestamp: message.timestamp.toISOString(),
+					sender: message.sender,
+					content: message.content,
+					attachment: message.attachment ?? null,
+					...(options.includeBookmarks ? {
+						bookmark: bookmark ? {
+							createdAt: bookmark.createdAt.toISOString(),
+							note: bookmark.note ?? null,
+							tags: bookmark.tags ?? []
+						} : null
+					} : {})
+				};
+			})
+		}, null, 2);
+	}
+
+	/**
+	 * One row per message, with bookmark columns when requested
+	 */
+	private static toCsv(messages: Message[], bookmarks: Map<string, Bookmark>, includeBookmarks: boolean): string {
+		const header = ['index', 'timestamp', 'sender', 'content', 'attachment'];
+		if (includeBookmarks) header.push('bookmarked', 'note', 'tags');
+
+		const rows = messages.map(message => {
+			const row = [
+				String(message.messageIndex),
+				message.timestamp.toISOString(),
+				message.sender,
+				message.content,
+				message.attachment ?? ''
+			];
+			if (includeBookmarks) {
+				const bookmark = bookmarks.get(message.id);
+				row.push(bookmark ? 'yes' : '', bookmark?.note ?? '', (bookmark?.tags ?? []).join(' '));
+			}
+			return row;
+		});
+
+		return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+	}
+
+	/**
+	 * Standalone page with inline styles that mirrors the app's chat bubbles
+	 */
+	private static toHtml(chat: ExportChat, messages: Message[], bookmarks: Map<string, Bookmark>): string {
+		const escape = (text: string) => text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;');
+		const body: string[] = [];
+		let previousDay = '';
+
+		for (const message of messages) {
+			const day = message.timestamp.toDateString();
+			if (day !== previousDay) {
+				previousDay = day;
+				const label = message.timestamp.toLocaleDateString('en-US', {
+					weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
+				});
+				body.push(`<div class="date"><span>${escape(label)}</span></div>`);
+			}
+
+			if (message.sender === 'System') {
+				body.push(`<div class="system"><span>${escape(message.content)}</span></div>`);
+				continue;
+			}
+
+			const sent = message.sender === chat.identity;
+			const bookmark = bookmarks.get(message.id);
+			body.push([
+				`<div class="row ${sent ? 'sent' : 'received'}">`,
+				`<div class="bubble${bookmark ? ' bookmarked' : ''}">`,
+				sent ? '' : `<div class="sender">${escape(message.sender)}</div>`,
+				`<div class="content">${escape(message.content)}</div>`,
+				bookmark?.note ? `<div class="note">★ ${escape(bookmark.note)}</div>` : '',
+				`<div class="time">${bookmark ? '★ ' : ''}${escape(this.formatTime(message.timestamp, '12h'))}</div>`,
+				'</div>',
+				'</div>'
+			].join(''));
+		}
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape(chat.name)}</title>
+<style>
+body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #e5ddd5; color: #111b21; }
+header { position: sticky; top: 0; padding: 12px 20px; background: #25d366; color: white; }
+header h1 { margin: 0; font-size: 1.1rem; }
+header p { margin: 2px 0 0; font-size: 0.8rem; opacity: 0.9; }
+main { max-width: 900px; margin: 0 auto; padding: 16px; }
+.row { display: flex; margin: 2px 0; }
+.row.sent { justify-content: flex-end; }
+.bubble { max-width: 70%; padding: 6px 8px 4px; border-radius: 8px; box-shadow: 0 1px 1px rgba(0, 0, 0, 0.1); background: white; }
+.sent .bubble { background: #dcf8c6; }
+.bubble.bookmarked { outline: 2px solid #f6c343; }
+.sender { font-size: 0.8rem; font-weight: 600; color: #128c7e; margin-bottom: 2px; }
+.content { white-space: pre-wrap; word-wrap: break-word; font-size: 0.9rem; line-height: 1.4; }
+.note { margin-top: 4px; padding: 4px 6px; background: #fff8e1; border-radius: 4px; font-size: 0.8rem; }
+.time { text-align: right; font-size: 0.7rem; color: #667781; margin-top: 2px; }
+.date, .system { text-align: center; margin: 12px 0; }
+.date span, .system span { display: inline-block; padding: 4px 12px; border-radius: 8px; font-size: 0.75rem; background: #e1f3fb; color: #54656f; }
+.system span { background: #fff5c4; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escape(chat.name)}</h1>
+<p>${messages.length.toLocaleString()} messages · ${escape(chat.participants.join(', '))}</p>
+</header>
+<main>
+${body.join('\n')}
+</main>
+</body>
+</html>
+`;
+	}
+
+	/**
+	 * Format a date like WhatsApp does for the given order
+	 */
+	private static formatDate(date: Date, order: DateOrder): string {
+		const day = String(date.getDate()).padStart(2, '0');
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const year = String(date.getFullYear());
+
+		switch (order) {
+			case 'MDY':
+				return `${month}/${day}/${year}`;
+			case 'YMD':
+				return `${year}-${month}-${day}`;
+			default:
+				return `${day}/${month}/${year}`;
+		}
+	}
+
+	/**
+	 * Format a time on a 12- or 24-hour clock
+	 */
+	private static formatTime(date: Date, clock: '12h' | '24h'): string {
+		const minutes = String(date.getMinutes()).padStart(2, '0');
+		if (clock === '24h') {
+			return `${String(date.getHours()).padStart(2, '0')}:${minutes}`;
+		}
+
+		const hours = date.getHours() % 12 || 12;
+		return `${hours}:${minutes} ${date.getHours() < 12 ? 'AM' : 'PM'}`;
+	}
+}
@@ -0,0 +1,83 @@
+import { SearchQueryMatcher, type QueryableMessage } from './query';
+
+/**
+ * Kinds of message the timeline can be narrowed to
+ */
+export type FilterKind = 'media' | 'link' | 'system' | 'long';
+
+export const FILTER_KINDS: { value: FilterKind; label: string }[] = [
+	{ value: 'media', label: 'Media' },
+	{ value: 'link', label: 'Links' },
+	{ value: 'system', label: 'System events' },
+	{ value: 'long', label: 'Long messages' }
+];
+
+/**
+ * Narrowing of a chat's timeline; empty fields don't narrow anything
+ *
+ * A message must match every field that is set, and any one of the senders and kinds chosen.
+ */
+export interface MessageFilter {
+	senders: string[];
+	// Local days, both inclusive
+	from: Date | null;
+	to: Date | null;
+	kinds: FilterKind[];
+}
+
+export const EMPTY_FILTER: MessageFilter = { senders: [], from: null, to: null, kinds: [] };
+
+/**
+ * Evaluates timeline filters against messages
+ */
+export class MessageFilterMatcher {
+	// Characters from which a text message counts as long
+	static readonly LONG_MESSAGE_LENGTH = 300;
+
+	/**
+	 * Whether a filter narrows anything at all
+	 */
+	static isActive(filter: MessageFilter): boolean {
+		return filter.senders.length > 0 || !!filter.from || !!filter.to || filter.kinds.length > 0;
+	}
+
+	/**
+	 * Number of filter fields that are set, for showing on the filter button
+	 */
+	static countActive(filter: MessageFilter): number {
+		return [filter.senders.length > 0, !!filter.from || !!filter.to, filter.kinds.length > 0].filter(Boolean).length;
+	}
+
+	/**
+	 * Check whether a message passes a filter
+	 */
+	static matches(message: QueryableMessage, filter: MessageFilter): boolean {
+		if (filter.senders.length > 0 && !filter.senders.includes(message.sender)) return false;
+		if (filter.from && message.timestamp.getTime() < filter.from.getTime()) return false;
+		if (filter.to && message.timestamp.getTime() >= this.nextDay(filter.to).getTime()) return false;
+		return filter.kinds.length === 0 || filter.kinds.some(kind => this.isKind(message, kind));
+	}
+
+	/**
+	 * Check one kind of message
+	 */
+	private static isKind(message: QueryableMessage, kind: FilterKind): boolean {
+		switch (kind) {
+			case 'media':
+				return SearchQueryMatcher.hasMedia(message);
+			case 'link':
+				return SearchQueryMatcher.hasLink(message);
+			case 'system':
+				return message.kind ? message.kind.type === 'system' : message.sender === 'System';
+			case 'long':
+				return message.kind?.type !== 'system' && message.content.length >= this.LONG_MESSAGE_LENGTH;
+		}
+	}
+
+	/**
+	 * Midnight at the start of the following day
+	 */
+	private static nextDay(date: Date): Date {
+		return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+	}
+}
@@ -0,0 +1,162 @@
+import type { GroupEvent, MessageKind } from './kinds';
+
+/**
+ * Group event that changed membership or settings, with when it happened
+ */
+export interface MembershipEvent {
+	timestamp: Date;
+	group: Exclude<GroupEvent, { event: 'other' }>;
+}
+
+/**
+ * Someone who was in the group at some point of the export
+ */
+export interface GroupMember {
+	name: string;
+	active: boolean;
+	// Null when they were already a member when the export starts
+	joinedAt: Date | null;
+	addedBy: string | null;
+	leftAt: Date | null;
+	removedBy: string | null;
+}
+
+/**
+ * Membership and subject history of a group chat
+ */
+export interface GroupTimeline {
+	subject: string | null;
+	createdAt: Date | null;
+	createdBy: string | null;
+	events: MembershipEvent[];
+	members: GroupMember[];
+}
+
+/**
+ * Message fields the history is built from
+ */
+export interface GroupHistoryMessage {
+	timestamp: Date;
+	kind: MessageKind;
+}
+
+/**
+ * Builds a group's membership timeline from its system messages, one message at a time
+ */
+export class GroupHistory {
+	private events: MembershipEvent[] = [];
+	private members = new Map<string, GroupMember>();
+	private subject: string | null = null;
+	private createdAt: Date | null = null;
+	private createdBy: string | null = null;
+
+	/**
+	 * Whether any group event has been seen
+	 */
+	get hasEvents(): boolean {
+		return this.events.length > 0;
+	}
+
+	/**
+	 * Latest group subject seen so far
+	 */
+	get currentSubject(): string | null {
+		return this.subject;
+	}
+
+	/**
+	 * Apply one message; anything but a group event is ignored
+	 */
+	add(message: GroupHistoryMessage): void {
+		if (message.kind.type !== 'system') return;
+
+		const group = message.kind.group;
+		const at = message.timestamp;
+
+		switch (group.event) {
+			case 'other':
+				return;
+			case 'created':
+				this.createdAt = at;
+				this.createdBy = group.actor;
+				if (group.subject) this.subject = group.subject;
+				this.join(group.actor, at, null);
+				break;
+			case 'joined':
+				this.join(group.actor, at, null);
+				break;
+			case 'added':
+				this.member(group.actor);
+				group.targets.forEach(target => this.join(target, at, group.actor));
+				break;
+			case 'left':
+				this.leave(group.actor, at, null);
+				break;
+			case 'removed':
+				this.member(group.actor);
+				group.targets.forEach(target => this.leave(target, at, group.actor));
+				break;
+			case 'subject-changed':
+				this.subject = group.subject;
+				this.member(group.actor);
+				break;
+			case 'icon-changed':
+				this.member(group.actor);
+				break;
+		}
+
+		this.events.push({ timestamp: at, group });
+	}
+
+	/**
+	 * Timeline including everyone who sent messages, current members first
+	 */
+	finish(participants: string[]): GroupTimeline {
+		participants.forEach(name => this.member(name));
+
+		const members = [...this.members.values()].sort((a, b) =>
+			Number(b.active) - Number(a.active) || a.name.localeCompare(b.name));
+
+		return {
+			subject: this.subject,
+			createdAt: this.createdAt,
+			createdBy: this.createdBy,
+			events: this.events,
+			members
+		};
+	}
+
+	/**
+	 * Member record for a name, assuming they were in the group from the start
+	 */
+	private member(name: string): GroupMember {
+		let member = this.members.get(name);
+		if (!member) {
+			member = { name, active: true, joinedAt: null, addedBy: null, leftAt: null, removedBy: null };
+			this.members.set(name, member);
+		}
+		return member;
+	}
+
+	/**
+	 * Record someone joining or being added, including rejoining after leaving
+	 */
+	private join(name: string, at: Date, addedBy: string | null): void {
+		const member = this.member(name);
+		member.active = true;
+		member.joinedAt = at;
+		member.addedBy = addedBy;
+		member.leftAt = null;
+		member.removedBy = null;
+	}
+
+	/**
+	 * Record someone leaving or being removed
+	 */
+	private leave(name: string, at: Date, removedBy: string | null): void {
+		const member = this.member(name);
+		member.active = false;
+		member.leftAt = at;
+		member.removedBy = removedBy;
+	}
+}
@@ -0,0 +1,21 @@
+/**
+ * Chat fields that decide who the user is in it
+ */
+export interface IdentityChat {
+	participants: string[];
+	identity?: string | null;
+}
+
+/**
+ * Works out which participant of a chat is the person using the app
+ */
+export class ChatIdentity {
+	/**
+	 * The chat's own choice when one was made, otherwise the first default name among its
+	 * participants; null means the user only observes the chat
+	 */
+	static resolve(chat: IdentityChat, defaultNames: string[]): string | null {
+		if (chat.identity !== undefined) return chat.identity;
+		return defaultNames.find(name => chat.participants.includes(name)) ?? null;
+	}
+}
@@ -0,0 +1,157 @@
+import type { ChatMetadata, DateFormat, DateOrder, ParsedMessage } from './parser';
+import log from './logger';
+
+/**
+ * Progress reported while the worker reads and parses an export
+ */
+export interface ParseProgress {
+	phase: 'scanning' | 'parsing';
+	bytesRead: number;
+	totalBytes: number;
+	messagesFound: number;
+}
+
+/**
+ * Messages sent from the main thread to the parser worker
+ */
+export type ParserWorkerRequest =
+	| { type: 'start'; file: Blob; format?: DateFormat }
+	| { type: 'resolve'; order: DateOrder };
+
+/**
+ * Messages sent from the parser worker back to the main thread
+ */
+export type ParserWorkerResponse =
+	| { type: 'progress'; progress: ParseProgress }
+	| { type: 'format'; format: DateFormat }
+	| { type: 'batch'; messages: ParsedMessage[] }
+	| { type: 'done'; metadata: ChatMetadata; format: DateFormat }
+	| { type: 'error'; message: string };
+
+/**
+ * Callbacks a parse task reports to while it runs
+ */
+export interface ChatParseHandlers {
+	onProgress?: (progress: ParseProgress) => void;
+	onBatch?: (messages: ParsedMessage[]) => void;
+	/** Asked when day and month can't be told apart; the import waits for the answer */
+	onAmbiguousFormat: (format: DateFormat) => Promise<DateOrder>;
+}
+
+/**
+ * Outcome of a completed parse task
+ */
+export interface ChatParseResult {
+	messages: ParsedMessage[];
+	metadata: ChatMetadata;
+	format: DateFormat;
+}
+
+/**
+ * Parses a chat export in a Web Worker so large files don't block the page
+ */
+export class ChatParseTask {
+	private worker: Worker | null = null;
+	private rejectRun: ((error: Error) => void) | null = null;
+	private cancelled = false;
+
+	constructor(
+		private readonly file: Blob,
+		private readonly handlers: ChatParseHandlers,
+		private readonly format?: DateFormat
+	) {}
+
+	/**
+	 * Whether the task was stopped by the user
+	 */
+	get isCancelled(): boolean {
+		return this.cancelled;
+	}
+
+	/**
+	 * Start the worker and collect every parsed message
+	 */
+	run(): Promise<ChatParseResult> {
+		log.info('Starting chat parse worker');
+		const messages: ParsedMessage[] = [];
+
+		return new Promise((resolve, reject) => {
+			this.rejectRun = reject;
+			this.worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+
+			this.worker.onmessage = async (event: MessageEvent<ParserWorkerResponse>) => {
+				const response = event.data;
+
+				switch (response.type) {
+					case 'progress':
+						this.handlers.onProgress?.(response.progress);
+						break;
+					case 'batch':
+						for (const message of response.messages) {
+							messages.push(message);
+						}
+						this.handlers.onBatch?.(response.messages);
+						break;
+					case 'format':
+						try {
+							const order = await this.handlers.onAmbiguousFormat(response.format);
+							this.post({ type: 'resolve', order });
+						} catch (error) {
+							this.fail(error instanceof Error ? error : new Error('Import cancelled'));
+						}
+						break;
+					case 'done':
+						this.dispose();
+						resolve({ messages, metadata: response.metadata, format: response.format });
+						break;
+					case 'error':
+						this.fail(new Error(response.message));
+						break;
+				}
+			};
+
+			this.worker.onerror = (event) => {
+				event.preventDefault();
+				this.fail(new Error(event.message || 'Parser worker crashed'));
+			};
+
+			this.post({ type: 'start', file: this.file, format: this.format });
+		});
+	}
+
+	/**
+	 * Abort the import; nothing has been stored yet, so terminating the worker is enough
+	 */
+	cancel(): void {
+		if (!this.worker) return;
+
+		log.info('Cancelling chat parse worker');
+		this.cancelled = true;
+		this.fail(new Error('Import cancelled'));
+	}
+
+	/**
+	 * Send a request to the worker
+	 */
+	private post(request: ParserWorkerRequest): void {
+		this.worker?.postMessage(request);
+	}
+
+	/**
+	 * Stop the worker and reject the running promise
+	 */
+	private fail(error: Error): void {
+		const reject = this.rejectRun;
+		this.dispose();
+		reject?.(error);
+	}
+
+	/**
+	 * Terminate the worker and drop references to it
+	 */
+	private dispose(): void {
+		this.worker?.terminate();
+		this.worker = null;
+		this.rejectRun = null;
+	}
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { MessageClassifier } from './kinds';
+import { WhatsAppParser } from './parser';
+
+/**
+ * Classify the message on one iOS export line the way the parser reads it
+ */
+function classifyIosLine(line: string) {
+	const [message] = WhatsAppParser.parse(line).messages;
+	return message.kind;
+}
+
+describe('MessageClassifier', () => {
+	it('reads polls with their options and votes', () => {
+		expect(MessageClassifier.classify({ sender: 'Alice', content: 'POLL:\nLunch?\nOPTION: Yes (3 votes)\nOPTION: No (1 vote)\nOPTION: Maybe' })).toEqual({
+			type: 'poll',
+			question: 'Lunch?',
+			options: [{ text: 'Yes', votes: 3 }, { text: 'No', votes: 1 }, { text: 'Maybe', votes: 0 }]
+		});
+	});
+
+	it('reads locations with and without coordinates', () => {
+		expect(MessageClassifier.classify({ sender: 'Alice', content: 'Location: https://maps.google.com/?q=-33.8688,151.2093' })).toEqual({
+			type: 'location',
+			url: 'https://maps.google.com/?q=-33.8688,151.2093',
+			latitude: -33.8688,
+			longitude: 151.2093,
+			live: false
+		});
+		expect(MessageClassifier.classify({ sender: 'Alice', content: 'live location shared' })).toMatchObject({ type: 'location', url: null, live: true });
+	});
+
+	it('reads calls but not free text mentioning a call', () => {
+		expect(MessageClassifier.classify({ sender: 'Bob', content: 'Video call, 12 min' })).toEqual({ type: 'call', media: 'video', missed: false });
+		expect(MessageClassifier.classify({ sender: 'Bob', content: 'Missed voice call' })).toEqual({ type: 'call', media: 'voice', missed: true });
+		expect(MessageClassifier.classify({ sender: 'Bob', content: 'Voice call me when you land' })).toEqual({ type: 'text' });
+	});
+
+	it('reads contact cards, edits and group events', () => {
+		expect(MessageClassifier.classify({ sender: 'Bob', content: '', attachment: 'Carol.vcf' })).toEqual({ type: 'contact', name: 'Carol' });
+		expect(MessageClassifier.classify({ sender: 'Bob', content: 'See you <This message was edited>' })).toEqual({ type: 'edited' });
+		expect(MessageClassifier.classify({ sender: 'System', content: 'Alice changed the subject from “Trip” to “Trip 2024”' })).toEqual({
+			type: 'system',
+			group: { event: 'subject-changed', actor: 'Alice', subject: 'Trip 2024' }
+		});
+	});
+});
+
+describe('MessageClassifier on iOS exports', () => {
+	it('reads LRM-marked calls', () => {
+		expect(classifyIosLine('[15/01/2024, 09:31:00] Bob: \u200eVideo call, \u200e5 min')).toEqual({ type: 'call', media: 'video', missed: false });
+		expect(classifyIosLine('[15/01/2024, 09:31:00] Bob: \u200eMissed voice call, \u200eTap to call back')).toEqual({ type: 'call', media: 'voice', missed: true });
+	});
+
+	it('reads LRM-marked locations', () => {
+		expect(classifyIosLine('[15/01/2024, 09:32:00] Carol: \u200eLocation: https://maps.google.com/?q=52.37,4.89')).toMatchObject({ type: 'location', latitude: 52.37, longitude: 4.89 });
+	});
+
+	it('reads LRM-marked polls', () => {
+		expect(classifyIosLine('[15/01/2024, 09:33:00] Alice: \u200ePOLL:\nDinner?\n\u200eOPTION: Tonight (1 vote)')).toEqual({
+			type: 'poll',
+			question: 'Dinner?',
+			options: [{ text: 'Tonight', votes: 1 }]
+		});
+	});
+});
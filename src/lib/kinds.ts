@@ -0,0 +1,168 @@
+/**
+ * Type of media WhatsApp left out of an export made without media
+ */
+export type OmittedMediaType = 'image' | 'video' | 'audio' | 'document' | 'gif' | 'sticker' | 'media';
+
+/**
+ * Change to a group announced by a system line
+ */
+export type GroupEvent =
+	| { event: 'created'; actor: string; subject: string | null }
+	| { event: 'joined'; actor: string; viaLink: boolean }
+	| { event: 'left'; actor: string }
+	| { event: 'added'; actor: string; targets: string[] }
+	| { event: 'removed'; actor: string; targets: string[] }
+	| { event: 'subject-changed'; actor: string; subject: string }
+	| { event: 'icon-changed'; actor: string; removed: boolean }
+	| { event: 'other' };
+
+/**
+ * Option of a poll with the votes it had when the chat was exported
+ */
+export interface PollOption {
+	text: string;
+	votes: number;
+}
+
+/**
+ * What a message is, as far as the export text tells
+ */
+export type MessageKind =
+	| { type: 'text' }
+	| { type: 'media-omitted'; media: OmittedMediaType }
+	| { type: 'attachment'; fileName: string }
+	| { type: 'deleted' }
+	| { type: 'edited' }
+	| { type: 'poll'; question: string; options: PollOption[] }
+	| { type: 'location'; url: string | null; latitude: number | null; longitude: number | null; live: boolean }
+	| { type: 'contact'; name: string | null }
+	| { type: 'call'; media: 'voice' | 'video'; missed: boolean }
+	| { type: 'system'; group: GroupEvent };
+
+export type MessageKindType = MessageKind['type'];
+
+/**
+ * Message fields the classifier looks at
+ */
+export interface ClassifiableMessage {
+	sender: string;
+	content: string;
+	attachment?: string;
+}
+
+/**
+ * Works out the kind of a message from the text WhatsApp wrote for it
+ *
+ * Only English exports are recognised; anything else is classified as text,
+ * or as an `other` group event for system lines.
+ */
+export class MessageClassifier {
+	private static readonly OMITTED_REGEX = /^<?(media|image|video|audio|document|gif|sticker) omitted>?$/i;
+	private static readonly CONTACT_OMITTED_REGEX = /^contact card omitted$/i;
+	private static readonly DELETED_REGEX = /^(this message was deleted|you deleted this message)\.?$/i;
+	private static readonly EDITED_REGEX = /\s*<This message was edited>$/i;
+	private static readonly POLL_REGEX = /^POLL:\n(.+)((?:\nOPTION: .*)*)$/;
+	private static readonly POLL_OPTION_REGEX = /^OPTION: (.*?)(?: \((\d+) votes?\))?$/;
+	private static readonly LOCATION_REGEX = /^(live )?location(?: shared)?:\s*(https?:\/\/\S+)/i;
+	private static readonly LIVE_LOCATION_REGEX = /^live location shared$/i;
+	private static readonly COORDINATES_REGEX = /[?&](?:q|query|ll)=(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/;
+	// Call lines carry a duration or a short note, never free text
+	private static readonly CALL_REGEX = /^(missed )?(voice|video) call(?:[,.]\s*(?:\d+\s*(?:sec|min|hr|h|m|s)\w*|tap to call back|click to call back|no answer|answered on other device))?$/i;
+
+	private static readonly GROUP_PATTERNS: [RegExp, (match: RegExpMatchArray) => GroupEvent][] = [
+		[/^(.+?) created (?:the )?group ["“](.*)["”]$/, match => ({ event: 'created', actor: match[1], subject: match[2] })],
+		[/^(.+?) created this group$/, match => ({ event: 'created', actor: match[1], subject: null })],
+		[/^(.+?) joined using this group's invite link$/, match => ({ event: 'joined', actor: match[1], viaLink: true })],
+		[/^(.+?) joined$/, match => ({ event: 'joined', actor: match[1], viaLink: false })],
+		[/^(.+?) left$/, match => ({ event: 'left', actor: match[1] })],
+		[/^(.+?) added (.+)$/, match => ({ event: 'added', actor: match[1], targets: MessageClassifier.splitNames(match[2]) })],
+		[/^(.+?) removed (.+)$/, match => ({ event: 'removed', actor: match[1], targets: MessageClassifier.splitNames(match[2]) })],
+		[/^(.+?) changed the (?:group name|subject)(?: from ["“].*["”])? to ["“](.*)["”]$/, match => ({ event: 'subject-changed', actor: match[1], subject: match[2] })],
+		[/^(.+?) changed (?:this group's|the group) icon$/, match => ({ event: 'icon-changed', actor: match[1], removed: false })],
+		[/^(.+?) deleted (?:this group's|the group) icon$/, match => ({ event: 'icon-changed', actor: match[1], removed: true })]
+	];
+
+	/**
+	 * Classify one message
+	 */
+	static classify(message: ClassifiableMessage): MessageKind {
+		const content = message.content.trim();
+
+		if (message.sender === 'System') {
+			return { type: 'system', group: this.classifyGroupEvent(content) };
+		}
+
+		if (message.attachment) {
+			if (/\.vcf$/i.test(message.attachment)) {
+				return { type: 'contact', name: message.attachment.replace(/\.vcf$/i, '') };
+			}
+			return { type: 'attachment', fileName: message.attachment };
+		}
+
+		const omitted = content.match(this.OMITTED_REGEX);
+		if (omitted) {
+			const media = omitted[1].toLowerCase() as OmittedMediaType;
+			return { type: 'media-omitted', media };
+		}
+		if (this.CONTACT_OMITTED_REGEX.test(content)) return { type: 'contact', name: null };
+		if (this.DELETED_REGEX.test(content)) return { type: 'deleted' };
+		if (this.EDITED_REGEX.test(content)) return { type: 'edited' };
+
+		const poll = content.match(this.POLL_REGEX);
+		if (poll) {
+			const options = poll[2].split('\n').filter(Boolean).map(line => {
+				const [, text, votes] = line.match(this.POLL_OPTION_REGEX) ?? [line, line, '0'];
+				return { text, votes: votes ? parseInt(votes, 10) : 0 };
+			});
+			return { type: 'poll', question: poll[1].trim(), options };
+		}
+
+		const location = content.match(this.LOCATION_REGEX);
+		if (location) {
+			const coordinates = location[2].match(this.COORDINATES_REGEX);
+			return {
+				type: 'location',
+				url: location[2],
+				latitude: coordinates ? parseFloat(coordinates[1]) : null,
+				longitude: coordinates ? parseFloat(coordinates[2]) : null,
+				live: Boolean(location[1])
+			};
+		}
+		if (this.LIVE_LOCATION_REGEX.test(content)) {
+			return { type: 'location', url: null, latitude: null, longitude: null, live: true };
+		}
+
+		const call = content.match(this.CALL_REGEX);
+		if (call) {
+			return { type: 'call', media: call[2].toLowerCase() as 'voice' | 'video', missed: Boolean(call[1]) };
+		}
+
+		return { type: 'text' };
+	}
+
+	/**
+	 * Message text without the marker WhatsApp adds to edited messages
+	 */
+	static stripEditedMarker(content: string): string {
+		return content.replace(this.EDITED_REGEX, '');
+	}
+
+	/**
+	 * Recognise a group membership or settings change in a system line
+	 */
+	private static classifyGroupEvent(content: string): GroupEvent {
+		const line = content.replace(/\.$/, '');
+		for (const [pattern, build] of this.GROUP_PATTERNS) {
+			const match = line.match(pattern);
+			if (match) return build(match);
+		}
+		return { event: 'other' };
+	}
+
+	/**
+	 * Split a list like "Ann, Bob and Cy" into names
+	 */
+	private static splitNames(list: string): string[] {
+		return list.split(/,\s*|\s+and\s+/).map(name => name.trim()).filter(Boolean);
+	}
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMerger, type FingerprintableMessage } from './merge';
+
+/**
+ * Message sent by a sender at a minute past 10:00 on the sample day
+ */
+function message(minute: number, sender: string, content: string): FingerprintableMessage {
+	return { timestamp: new Date(2024, 0, 15, 10, minute), sender, content };
+}
+
+const STORED = [
+	message(0, 'Alice', 'Are we still on for tonight?'),
+	message(1, 'Bob', 'Yes, 8pm'),
+	message(2, 'Alice', 'Great'),
+	message(3, 'Bob', 'See you there')
+];
+
+describe('ChatMerger.findAnchor', () => {
+	it('finds the last stored message in a longer export', () => {
+		const incoming = [...STORED, message(4, 'Alice', 'On my way'), message(5, 'Bob', 'Me too')];
+		expect(ChatMerger.findAnchor(STORED, incoming)).toBe(3);
+	});
+
+	it('finds nothing when the stored tail is not in the export', () => {
+		const incoming = [message(0, 'Alice', 'Are we still on for tonight?'), message(1, 'Bob', 'Yes, 9pm'), message(2, 'Alice', 'Great')];
+		expect(ChatMerger.findAnchor(STORED, incoming)).toBe(-1);
+		expect(ChatMerger.findAnchor(STORED, STORED.slice(1))).toBe(-1);
+		expect(ChatMerger.findAnchor([], STORED)).toBe(-1);
+	});
+
+	it('uses the latest run when the tail appears twice', () => {
+		const tail = [message(1, 'Bob', 'Yes, 8pm'), message(2, 'Alice', 'Great')];
+		const incoming = [...tail, message(3, 'Bob', 'Hm'), ...tail, message(4, 'Bob', 'New')];
+		expect(ChatMerger.findAnchor(tail, incoming)).toBe(4);
+	});
+
+	it('needs the whole tail to line up, not just repeated short messages', () => {
+		// Several "ok"s in one minute share a fingerprint
+		const tail = [message(0, 'Alice', 'Ready?'), message(1, 'Bob', 'ok'), message(1, 'Bob', 'ok')];
+		const incoming = [...tail, message(1, 'Bob', 'ok'), message(2, 'Alice', 'Go')];
+		expect(ChatMerger.findAnchor(tail, incoming)).toBe(2);
+
+		const elsewhere = [message(0, 'Alice', 'Set?'), message(1, 'Bob', 'ok'), message(1, 'Bob', 'ok'), message(2, 'Alice', 'Go')];
+		expect(ChatMerger.findAnchor(tail, elsewhere)).toBe(-1);
+	});
+
+	it('anchors at the end of a re-import with no new messages', () => {
+		// Trailing whitespace can differ between exports of the same message
+		const incoming = [message(0, 'Alice', 'Are we still on for tonight?  '), ...STORED.slice(1)];
+		expect(ChatMerger.findAnchor(STORED, incoming)).toBe(incoming.length - 1);
+	});
+});
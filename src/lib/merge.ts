@@ -0,0 +1,53 @@
+/**
+ * Message fields that identify a message across exports of the same chat
+ */
+export interface FingerprintableMessage {
+	timestamp: Date;
+	sender: string;
+	content: string;
+}
+
+/**
+ * Detects when a newly parsed export continues a chat that is already stored
+ */
+export class ChatMerger {
+	// Stored messages that must line up with the new export before it counts as the same chat
+	static readonly ANCHOR_SIZE = 5;
+
+	/**
+	 * Key that is equal for the same message in two exports of a chat
+	 */
+	static fingerprint(message: FingerprintableMessage): string {
+		return `${message.timestamp.getTime()}\u0000${message.sender}\u0000${message.content.trim()}`;
+	}
+
+	/**
+	 * Whether two participant lists have anyone other than the system sender in common
+	 */
+	static sharesParticipants(a: string[], b: string[]): boolean {
+		const names = new Set(a.filter(name => name !== 'System'));
+		return b.some(name => names.has(name));
+	}
+
+	/**
+	 * Index in `incoming` of the last stored message, or -1 when the stored tail isn't there
+	 *
+	 * The whole tail must appear as a consecutive run, which keeps repeated short messages
+	 * like "ok" from anchoring the merge in the wrong place. When it appears more than once
+	 * the latest run wins.
+	 */
+	static findAnchor(storedTail: FingerprintableMessage[], incoming: FingerprintableMessage[]): number {
+		if (storedTail.length === 0) return -1;
+
+		const tail = storedTail.map(message => this.fingerprint(message));
+		const fingerprints = incoming.map(message => this.fingerprint(message));
+
+		for (let end = fingerprints.length - 1; end >= tail.length - 1; end--) {
+			const start = end - tail.length + 1;
+			if (tail.every((fingerprint, offset) => fingerprints[start + offset] === fingerprint)) {
+				return end;
+			}
+		}
+		return -1;
+	}
+}
@@ -0,0 +1,113 @@
+import { get } from 'svelte/store';
+import { goto } from '$app/navigation';
+import { appState, chats, storeService } from './stores';
+import log from './logger';
+
+/**
+ * Chat and message a URL points at
+ */
+export interface RouteTarget {
+	chatId: string | null;
+	messageIndex: number | null;
+}
+
+/**
+ * Keeps the URL and `appState` in sync in both directions
+ *
+ * URLs are `/`, `/chat/[chatId]` and `/chat/[chatId]/m/[messageIndex]`. Opening a chat
+ * or jumping to a message pushes a history entry; loading a URL, or moving through
+ * history with back/forward, opens the chat and scrolls to the message it names.
+ */
+class RouteSyncService {
+	// Set while a URL is being applied, so the state changes it causes aren't pushed back
+	private applyingRoute = false;
+	// Path pushed from a state change; the route change it causes needs no handling
+	private pushedPath: string | null = null;
+
+	/**
+	 * URL for a chat, or for one of its messages
+	 */
+	chatPath(chatId: string, messageIndex?: number | null): string {
+		const chatPath = `/chat/${encodeURIComponent(chatId)}`;
+		return messageIndex === undefined || messageIndex === null ? chatPath : `${chatPath}/m/${messageIndex}`;
+	}
+
+	/**
+	 * Read the chat and message a route's params point at
+	 */
+	parseRoute(params: Record<string, string>): RouteTarget {
+		const messageIndex = params.messageIndex !== undefined ? Number(params.messageIndex) : null;
+		return {
+			chatId: params.chatId ?? null,
+			messageIndex: messageIndex !== null && Number.isInteger(messageIndex) && messageIndex >= 0 ? messageIndex : null
+		};
+	}
+
+	/**
+	 * Open whatever the current URL points at
+	 */
+	async applyRoute(target: RouteTarget, pathname: string): Promise<void> {
+		if (pathname === this.pushedPath) {
+			this.pushedPath = null;
+			return;
+		}
+
+		const state = get(appState);
+		if (target.chatId === state.currentChatId && target.messageIndex === null) return;
+
+		try {
+			this.applyingRoute = true;
+
+			if (!target.chatId) {
+				storeService.clearCurrentChat();
+				return;
+			}
+
+			if (!get(chats).some(chat => chat.id === target.chatId)) {
+				log.warn('Route points at a chat that does not exist');
+				await goto('/', { replaceState: true });
+				return;
+			}
+
+			if (target.messageIndex !== null) {
+				await storeService.focusMessage(target.chatId, `${target.chatId}-${target.messageIndex}`);
+			} else {
+				await storeService.switchToChat(target.chatId);
+			}
+		} catch (error) {
+			log.error('Failed to open route:', error);
+		} finally {
+			this.applyingRoute = false;
+		}
+	}
+
+	/**
+	 * Push a history entry when the user opens a chat or jumps to a message from the UI
+	 */
+	async applyState(current: RouteTarget, chatId: string | null, focusedMessageId: string | null): Promise<void> {
+		if (this.applyingRoute) return;
+
+		// Values from an earlier update; the one carrying the newer state will follow
+		const state = get(appState);
+		if (state.currentChatId !== chatId || state.focusedMessageId !== focusedMessageId) return;
+
+		let path: string | null = null;
+		if (chatId !== current.chatId) {
+			path = chatId ? this.chatPath(chatId) : '/';
+		}
+		if (chatId && focusedMessageId) {
+			const messageIndex = Number(focusedMessageId.slice(chatId.length + 1));
+			if (messageIndex !== current.messageIndex) {
+				path = this.chatPath(chatId, messageIndex);
+			}
+		}
+
+		if (path) {
+			this.pushedPath = path;
+			await goto(path, { keepFocus: true, noScroll: true });
+		}
+	}
+}
+
+// Export singleton instance
+export const routeSync = new RouteSyncService();
@@ -0,0 +1,149 @@
+/**
+ * Message fields the page cache needs to size pages
+ */
+export interface PageableMessage {
+	content: string;
+	sender: string;
+	timestamp: Date;
+}
+
+/**
+ * A run of consecutive messages of one chat, starting at a multiple of the page size
+ */
+export interface MessagePage<M extends PageableMessage> {
+	number: number;
+	messages: M[];
+}
+
+interface CacheEntry<M extends PageableMessage> {
+	chatId: string;
+	page: MessagePage<M>;
+	bytes: number;
+}
+
+/**
+ * Least recently used cache of message pages, evicting once their estimated size
+ * passes a memory budget
+ *
+ * Pages of every chat share the budget, so switching back to a chat is quick
+ * without any one chat being held in memory whole.
+ */
+export class MessagePageCache<M extends PageableMessage> {
+	static readonly PAGE_SIZE = 200;
+
+	// Rough cost of a message record beyond its strings
+	private static readonly MESSAGE_OVERHEAD_BYTES = 400;
+
+	// Map iteration order is insertion order, so the first entry is the least recently used
+	private entries = new Map<string, CacheEntry<M>>();
+	private bytes = 0;
+
+	constructor(
+		private readonly budgetBytes: number,
+		private readonly onEvict?: (chatId: string, pageNumber: number) => void
+	) {}
+
+	/**
+	 * Page holding a message index
+	 */
+	static pageOf(messageIndex: number): number {
+		return Math.floor(messageIndex / MessagePageCache.PAGE_SIZE);
+	}
+
+	/**
+	 * Index of the first message on a page
+	 */
+	static startOf(pageNumber: number): number {
+		return pageNumber * MessagePageCache.PAGE_SIZE;
+	}
+
+	/**
+	 * Estimated memory held by the cached pages
+	 */
+	get usedBytes(): number {
+		return this.bytes;
+	}
+
+	/**
+	 * Get a cached page, marking it as recently used
+	 */
+	get(chatId: string, pageNumber: number): MessagePage<M> | undefined {
+		const key = this.keyOf(chatId, pageNumber);
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.page;
+	}
+
+	/**
+	 * Cache a page, evicting the least recently used pages while over budget
+	 *
+	 * The page just added is never evicted, even when it alone is over budget.
+	 */
+	set(chatId: string, page: MessagePage<M>): void {
+		const key = this.keyOf(chatId, page.number);
+		this.remove(key);
+
+		const bytes = MessagePageCache.estimateBytes(page.messages);
+		this.entries.set(key, { chatId, page, bytes });
+		this.bytes += bytes;
+
+		for (const [oldestKey, oldest] of this.entries) {
+			if (this.bytes <= this.budgetBytes || oldestKey === key) break;
+			this.remove(oldestKey);
+			this.onEvict?.(oldest.chatId, oldest.page.number);
+		}
+	}
+
+	/**
+	 * Forget every page of a chat, after its messages changed or it was deleted
+	 */
+	deleteChat(chatId: string): void {
+		for (const [key, entry] of this.entries) {
+			if (entry.chatId === chatId) this.remove(key);
+		}
+	}
+
+	/**
+	 * Forget every page
+	 */
+	clear(): void {
+		this.entries.clear();
+		this.bytes = 0;
+	}
+
+	/**
+	 * Chats with cached pages and how many, for debugging
+	 */
+	describe(): Record<string, number> {
+		const pagesByChat: Record<string, number> = {};
+		for (const entry of this.entries.values()) {
+			pagesByChat[entry.chatId] = (pagesByChat[entry.chatId] ?? 0) + 1;
+		}
+		return pagesByChat;
+	}
+
+	private remove(key: string): void {
+		const entry = this.entries.get(key);
+		if (!entry) return;
+		this.entries.delete(key);
+		this.bytes -= entry.bytes;
+	}
+
+	private keyOf(chatId: string, pageNumber: number): string {
+		return `${chatId}:${pageNumber}`;
+	}
+
+	/**
+	 * Approximate heap size of a page's messages; strings take two bytes per character
+	 */
+	private static estimateBytes(messages: PageableMessage[]): number {
+		let bytes = 0;
+		for (const message of messages) {
+			bytes += MessagePageCache.MESSAGE_OVERHEAD_BYTES + (message.content.length + message.sender.length) * 2;
+		}
+		return bytes;
+	}
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { WhatsAppParser } from './parser';
+
+const ANDROID_CHAT = [
+	'15/01/2024, 09:29 - Messages and calls are end-to-end encrypted. No one outside of this chat can read them.',
+	'15/01/2024, 09:29 - Alice created group "Weekend trip"',
+	'15/01/2024, 09:30 - Alice: Who is in for Saturday?',
+	'15/01/2024, 09:31 - ~ Bob: Me! Bringing snacks',
+	'and drinks',
+	'15/01/2024, 09:32 - Alice added Carol',
+	'16/01/2024, 18:05 - Carol: IMG-20240116-WA0001.jpg (file attached)',
+	'16/01/2024, 18:06 - Bob: <Media omitted>',
+	'16/01/2024, 18:07 - Carol: location: https://maps.google.com/?q=52.37,4.89',
+	'16/01/2024, 18:08 - Bob: This message was deleted'
+].join('\n');
+
+// iOS flags system lines and some sender messages alike with a leading LRM
+const IOS_CHAT = [
+	'[15/01/2024, 09:29:10] Weekend trip: \u200eMessages and calls are end-to-end encrypted.',
+	'[15/01/2024, 09:29:11] Weekend trip: \u200eAlice created group “Weekend trip”',
+	'[15/01/2024, 09:30:00] Alice: Who is in for Saturday?',
+	'[15/01/2024, 09:31:00] Bob: \u200eMissed voice call, \u200eTap to call back',
+	'[15/01/2024, 09:32:00] Carol: \u200eLocation: https://maps.google.com/?q=52.37,4.89',
+	'[15/01/2024, 09:33:00] Alice: \u200ePOLL:',
+	'Where do we eat?',
+	'\u200eOPTION: Pizza (2 votes)',
+	'\u200eOPTION: Sushi (1 vote)',
+	'\u200e[15/01/2024, 09:34:00] Bob: \u200eReport.pdf \u2022 \u200e3 pages \u200e<attached: 00000012-Report.pdf>',
+	'\u200e[15/01/2024, 09:35:00] Carol: \u200e<attached: 00000013-Dave.vcf>',
+	'[15/01/2024, 09:36:00] Weekend trip: \u200eAlice added Dave',
+	'[15/01/2024, 09:37:00] Alice: \u200eimage omitted',
+	'[15/01/2024, 09:38:00] Bob: \u200eThis message was deleted.'
+].join('\n');
+
+describe('WhatsAppParser.detectFormat', () => {
+	it('detects an Android export with a day-first date', () => {
+		const format = WhatsAppParser.detectFormat(ANDROID_CHAT);
+		expect(format).toMatchObject({ platform: 'android', order: 'DMY', ambiguous: false, separator: '/', clock: '24h', hasSeconds: false });
+	});
+
+	it('detects a 12-hour iOS export', () => {
+		const format = WhatsAppParser.detectFormat('[1/15/24, 9:30:12 PM] Alice: Hi\n[1/16/24, 10:02:00 AM] Bob: Hey');
+		expect(format).toMatchObject({ platform: 'ios', order: 'MDY', clock: '12h', hasSeconds: true });
+	});
+
+	it('flags dates that fit both day-first and month-first', () => {
+		const format = WhatsAppParser.detectFormat('01/02/2024, 10:00 - Alice: Hi');
+		expect(format.order).toBeNull();
+		expect(format.ambiguous).toBe(true);
+		expect(() => WhatsAppParser.requireDateOrder(format)).toThrow(/Ambiguous date order/);
+	});
+});
+
+describe('WhatsAppParser.parse', () => {
+	const { messages, metadata } = WhatsAppParser.parse(ANDROID_CHAT);
+
+	it('reads every message of an Android export', () => {
+		expect(messages).toHaveLength(9);
+		expect(metadata.messageCount).toBe(9);
+		expect(metadata.participants).toEqual(['Alice', 'Bob', 'Carol']);
+		expect(metadata.name).toBe('Weekend trip');
+		expect(metadata.dateRange.start).toEqual(new Date(2024, 0, 15, 9, 29));
+		expect(metadata.dateRange.end).toEqual(new Date(2024, 0, 16, 18, 8));
+	});
+
+	it('turns lines without a sender into system messages', () => {
+		expect(messages[0]).toMatchObject({ sender: 'System', kind: { type: 'system', group: { event: 'other' } } });
+		expect(messages[1].kind).toEqual({ type: 'system', group: { event: 'created', actor: 'Alice', subject: 'Weekend trip' } });
+		expect(messages[4].kind).toEqual({ type: 'system', group: { event: 'added', actor: 'Alice', targets: ['Carol'] } });
+	});
+
+	it('strips the unsaved-contact prefix and joins continuation lines', () => {
+		expect(messages[3]).toMatchObject({ sender: 'Bob', content: 'Me! Bringing snacks\nand drinks' });
+	});
+
+	it('classifies attachments, omitted media, locations and deletions', () => {
+		expect(messages[5]).toMatchObject({ attachment: 'IMG-20240116-WA0001.jpg', kind: { type: 'attachment' } });
+		expect(messages[6].kind).toEqual({ type: 'media-omitted', media: 'media' });
+		expect(messages[7].kind).toMatchObject({ type: 'location', latitude: 52.37, longitude: 4.89, live: false });
+		expect(messages[8].kind).toEqual({ type: 'deleted' });
+	});
+});
+
+describe('WhatsAppParser.validate', () => {
+	it('accepts an export and rejects plain text', () => {
+		expect(WhatsAppParser.validate(ANDROID_CHAT).isValid).toBe(true);
+		expect(WhatsAppParser.validate('Just some notes\nwithout any headers').isValid).toBe(false);
+	});
+});
+
+describe('WhatsAppParser.parse on an iOS export', () => {
+	const { messages, metadata } = WhatsAppParser.parse(IOS_CHAT);
+
+	it('keeps the group name out of the participants', () => {
+		expect(messages).toHaveLength(11);
+		expect(metadata.participants).toEqual(['Alice', 'Bob', 'Carol']);
+		expect(metadata.name).toBe('Weekend trip');
+	});
+
+	it('reads marked lines from the group as system messages', () => {
+		expect(messages[0]).toMatchObject({ sender: 'System', content: 'Messages and calls are end-to-end encrypted.' });
+		expect(messages[1].kind).toEqual({ type: 'system', group: { event: 'created', actor: 'Alice', subject: 'Weekend trip' } });
+		expect(messages[8]).toMatchObject({ sender: 'System', kind: { type: 'system', group: { event: 'added', targets: ['Dave'] } } });
+	});
+
+	it('keeps the sender of marked calls, locations and polls', () => {
+		expect(messages[3]).toMatchObject({ sender: 'Bob', kind: { type: 'call', media: 'voice', missed: true } });
+		expect(messages[4]).toMatchObject({ sender: 'Carol', kind: { type: 'location', latitude: 52.37, longitude: 4.89 } });
+		expect(messages[5]).toMatchObject({
+			sender: 'Alice',
+			kind: {
+				type: 'poll',
+				question: 'Where do we eat?',
+				options: [{ text: 'Pizza', votes: 2 }, { text: 'Sushi', votes: 1 }]
+			}
+		});
+	});
+
+	it('keeps the sender of documents, contact cards, omitted media and deletions', () => {
+		expect(messages[6]).toMatchObject({ sender: 'Bob', attachment: '00000012-Report.pdf', kind: { type: 'attachment' } });
+		expect(messages[7]).toMatchObject({ sender: 'Carol', kind: { type: 'contact', name: '00000013-Dave' } });
+		expect(messages[9]).toMatchObject({ sender: 'Alice', kind: { type: 'media-omitted', media: 'image' } });
+		expect(messages[10]).toMatchObject({ sender: 'Bob', kind: { type: 'deleted' } });
+	});
+
+	it('keeps lines wrapped after a system message', () => {
+		const { messages: wrapped } = WhatsAppParser.parse('15/01/2024, 09:29 - Alice changed the group description\nto this\n15/01/2024, 09:30 - Alice: Hi');
+		expect(wrapped).toHaveLength(2);
+		expect(wrapped[0]).toMatchObject({ sender: 'System', content: 'Alice changed the group description\nto this' });
+	});
+});
+
+describe('WhatsAppParser.getPreview', () => {
+	it('counts senders but not the group name of an iOS export', () => {
+		expect(WhatsAppParser.getPreview(IOS_CHAT).participantCount).toBe(3);
+	});
+});
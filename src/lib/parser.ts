@@ -1,3 +1,5 @@
+import { MessageClassifier, type MessageKind } from './kinds';
+import { GroupHistory } from './group';
 import log from './logger';
 
 /**
@@ -7,8 +9,15 @@ export interface ParsedMessage {
 	timestamp: Date;
 	sender: string;
 	content: string;
+	attachment?: string;
+	kind: MessageKind;
 }
 
+/**
+ * Message still being read; its kind is known once every line has arrived
+ */
+type PendingMessage = Omit<ParsedMessage, 'kind'>;
+
 /**
  * Chat metadata interface
  */
@@ -22,111 +31,269 @@ export interface ChatMetadata {
 	};
 }
 
+/**
+ * Order of the day, month and year components in an export's dates
+ */
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+/**
+ * Phone platform whose export layout a chat file follows
+ */
+export type ExportPlatform = 'android' | 'ios';
+
+/**
+ * Platform layout and date/time conventions detected for a chat export
+ */
+export interface DateFormat {
+	platform: ExportPlatform;
+	order: DateOrder | null;
+	candidateOrders: DateOrder[];
+	ambiguous: boolean;
+	separator: string;
+	clock: '12h' | '24h';
+	hasSeconds: boolean;
+	sample: string | null;
+}
+
+/**
+ * Result of checking whether content looks like a WhatsApp chat export
+ */
+export interface ChatValidation {
+	isValid: boolean;
+	errors: string[];
+	warnings: string[];
+	format: DateFormat | null;
+}
+
+/**
+ * Raw timestamp components captured from a message header line
+ */
+export interface HeaderMatch {
+	platform: ExportPlatform;
+	date: [string, string, string];
+	separator: string;
+	hours: number;
+	minutes: number;
+	seconds: number;
+	hasSeconds: boolean;
+	meridiem: 'am' | 'pm' | null;
+	body: string;
+}
+
+/**
+ * Sender and content of a header line's body
+ */
+export interface HeaderBody {
+	// Null for lines without a sender, which are always system lines
+	sender: string | null;
+	content: string;
+	attachment?: string;
+	// iOS line whose content starts with an LRM, as both its system lines and some sender messages do
+	marked: boolean;
+}
+
 /**
  * High-performance WhatsApp chat parser with enterprise-grade optimization
  */
 export class WhatsAppParser {
-	private static readonly MESSAGE_REGEX = /^(\d{1,2}\/\d{1,2}\/\d{2,4}),\s(\d{1,2}:\d{2})\s-\s(.+?):\s(.*)$/;
-	private static readonly SYSTEM_MESSAGE_REGEX = /^(\d{1,2}\/\d{1,2}\/\d{2,4}),\s(\d{1,2}:\d{2})\s-\s(.*)$/;
+	// Date in any component order with `/`, `.` or `-`, optional comma, 24h or 12h clock with optional seconds
+	private static readonly HEADER_REGEX = /^(\d{1,4})([/.-])(\d{1,2})\2(\d{1,4}),?\s(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s?([AaPp])\.?\s?[Mm]\.?)?\s-\s(.*)$/;
+	// iOS wraps the same timestamp in brackets and drops the dash: `[19/10/2026, 21:56:03] Sender: message`
+	private static readonly IOS_HEADER_REGEX = /^\[(\d{1,4})([/.-])(\d{1,2})\2(\d{1,4}),?\s(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s?([AaPp])\.?\s?[Mm]\.?)?\]\s(.*)$/;
+	private static readonly SENDER_REGEX = /^(.+?):\s(.*)$/;
+	// Directional marks and embeddings WhatsApp inserts around names, attachments and system lines
+	private static readonly HIDDEN_MARKS_REGEX = /[\u200e\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g;
+	private static readonly LEADING_MARK_REGEX = /^[\u200e\u200f]/;
+	// iOS puts a document's name and page count before its marker: `Report.pdf • 3 pages <attached: …>`
+	private static readonly ATTACHMENT_REGEX = /^(?:.*\s)?<attached:\s*([^>]+)>$|^(.+\.\w{2,5}) \(file attached\)$/;
+	// First line of a poll, whose question and options follow on their own lines
+	private static readonly POLL_START_REGEX = /^POLL:$/;
+
+	private static readonly ORDER_LABELS: Record<DateOrder, string> = {
+		DMY: 'DD/MM/YYYY',
+		MDY: 'MM/DD/YYYY',
+		YMD: 'YYYY-MM-DD'
+	};
 
 	/**
 	 * Parse WhatsApp chat export text into structured data
 	 */
-	static parse(chatContent: string): {
+	static parse(chatContent: string, format?: DateFormat): {
 		messages: ParsedMessage[];
 		metadata: ChatMetadata;
 	} {
 		log.info('Parsing WhatsApp chat export text into structured data');
-		const lines = chatContent.split('\n').filter(line => line.trim());
-		const messages: ParsedMessage[] = [];
-		const participantSet = new Set<string>();
-		let currentMessage: ParsedMessage | null = null;
+		const parser = new ChatStreamParser(format ?? this.detectFormat(chatContent));
 		
-		for (const line of lines) {
-			const messageMatch = line.match(this.MESSAGE_REGEX);
-			const systemMatch = line.match(this.SYSTEM_MESSAGE_REGEX);
-			
-			if (messageMatch) {
-				// Save previous message if exists
-				if (currentMessage) {
-					messages.push(currentMessage);
-				}
-				
-				const [, date, time, sender, content] = messageMatch;
-				const timestamp = this.parseDateTime(date, time);
-				
-				// Clean sender name (remove ~ prefix if present)
-				const cleanSender = sender.replace(/^~\s/, '').trim();
-				participantSet.add(cleanSender);
-				
-				currentMessage = {
-					timestamp,
-					sender: cleanSender,
-					content: content.trim()
-				};
-			} else if (systemMatch) {
-				// Handle system messages (like encryption notice)
-				if (currentMessage) {
-					messages.push(currentMessage);
-					currentMessage = null;
-				}
-				
-				const [, date, time, content] = systemMatch;
-				const timestamp = this.parseDateTime(date, time);
-				
-				messages.push({
-					timestamp,
-					sender: 'System',
-					content: content.trim()
-				});
-			} else if (currentMessage && line.trim()) {
-				// Continuation of previous message (multiline)
-				currentMessage.content += '\n' + line.trim();
-			}
+		for (const line of chatContent.split('\n')) {
+			parser.push(line);
 		}
 		
-		// Add last message if exists
-		if (currentMessage) {
-			messages.push(currentMessage);
+		const metadata = parser.finish();
+		return { messages: parser.drain(), metadata };
+	}
+
+	/**
+	 * Detect the date order, separator and clock style by scanning every message header
+	 */
+	static detectFormat(content: string): DateFormat {
+		log.info('Detecting date and time format of chat export');
+		const detector = new FormatDetector();
+		
+		for (const line of content.split('\n')) {
+			detector.addLine(line);
 		}
 		
-		// Generate chat metadata
-		const participants = Array.from(participantSet).filter(p => p !== 'System');
-		const chatName = this.generateChatName(participants, messages);
+		return detector.getFormat();
+	}
+
+	/**
+	 * Resolve an ambiguous format with an explicitly chosen date order
+	 */
+	static withDateOrder(format: DateFormat, order: DateOrder): DateFormat {
+		return { ...format, order, candidateOrders: [order], ambiguous: false };
+	}
+
+	/**
+	 * Human-readable label for a date order
+	 */
+	static describeDateOrder(order: DateOrder): string {
+		return this.ORDER_LABELS[order];
+	}
+
+	/**
+	 * Match a line against the Android or iOS message header pattern
+	 */
+	static matchHeader(line: string): HeaderMatch | null {
+		// iOS prefixes system and attachment lines with an LRM before the bracket
+		const trimmed = line.trim().replace(this.LEADING_MARK_REGEX, '');
+		const androidMatch = trimmed.match(this.HEADER_REGEX);
+		const match = androidMatch ?? trimmed.match(this.IOS_HEADER_REGEX);
+		if (!match) return null;
 		
-		const metadata: ChatMetadata = {
-			name: chatName,
-			participants,
-			messageCount: messages.length,
-			dateRange: {
-				start: messages.length > 0 ? messages[0].timestamp : new Date(),
-				end: messages.length > 0 ? messages[messages.length - 1].timestamp : new Date()
-			}
+		const [, first, separator, second, third, hours, minutes, seconds, meridiem, body] = match;
+		return {
+			platform: androidMatch ? 'android' : 'ios',
+			date: [first, second, third],
+			separator,
+			hours: parseInt(hours, 10),
+			minutes: parseInt(minutes, 10),
+			seconds: seconds ? parseInt(seconds, 10) : 0,
+			hasSeconds: seconds !== undefined,
+			meridiem: meridiem ? (meridiem.toLowerCase() === 'a' ? 'am' : 'pm') : null,
+			body
 		};
+	}
+
+	/**
+	 * Split a header body into sender and content, or content only for lines without a sender
+	 */
+	static splitBody(header: HeaderMatch): HeaderBody {
+		const senderMatch = header.body.match(this.SENDER_REGEX);
+		if (!senderMatch) {
+			return { sender: null, content: this.stripHiddenMarks(header.body).trim(), marked: false };
+		}
 		
-		return { messages, metadata };
+		const [, rawSender, rawContent] = senderMatch;
+		const content = this.stripHiddenMarks(rawContent).trim();
+		const attachment = this.extractAttachment(content);
+		const marked = header.platform === 'ios' && !attachment && this.LEADING_MARK_REGEX.test(rawContent);
+		
+		// Clean sender name (remove ~ prefix if present)
+		const sender = this.stripHiddenMarks(rawSender).replace(/^~\s/, '').trim();
+		return attachment ? { sender, content, attachment, marked } : { sender, content, marked };
 	}
 
 	/**
-	 * Parse date and time string into Date object
+	 * Check whether a header body is a system line rather than a message from its sender
+	 *
+	 * iOS gives system lines the group or contact name as sender, told apart only by the leading LRM
+	 * it also puts on calls, locations, polls and deleted messages. A marked line is a system line
+	 * when it comes from the group subject, or from a name that hasn't sent anything and the
+	 * content isn't one of those sender messages.
 	 */
-	private static parseDateTime(dateStr: string, timeStr: string): Date {
-		log.info('Parsing date and time string into Date object');
-		// Handle different date formats (M/D/YY, MM/DD/YYYY, etc.)
-		const [month, day, year] = dateStr.split('/').map(num => parseInt(num, 10));
-		const [hours, minutes] = timeStr.split(':').map(num => parseInt(num, 10));
+	static isSystemLine(body: HeaderBody, participants: ReadonlySet<string>, subject: string | null): boolean {
+		if (!body.sender) return true;
+		if (!body.marked) return false;
+		if (body.sender === subject) return true;
+		if (participants.has(body.sender)) return false;
+		
+		return !this.POLL_START_REGEX.test(body.content) &&
+			MessageClassifier.classify({ sender: body.sender, content: body.content }).type === 'text';
+	}
+
+	/**
+	 * Extract the file name from an attachment marker
+	 */
+	static extractAttachment(content: string): string | undefined {
+		const match = content.match(this.ATTACHMENT_REGEX);
+		if (!match) return undefined;
+		return (match[1] ?? match[2]).trim();
+	}
+
+	/**
+	 * Remove invisible directional markers from exported text
+	 */
+	static stripHiddenMarks(text: string): string {
+		return text.replace(this.HIDDEN_MARKS_REGEX, '');
+	}
+
+	/**
+	 * Throw when a format has no usable date order
+	 */
+	static requireDateOrder(format: DateFormat): DateFormat & { order: DateOrder } {
+		if (format.order) {
+			return format as DateFormat & { order: DateOrder };
+		}
+		
+		if (format.ambiguous) {
+			const options = format.candidateOrders.map(order => this.ORDER_LABELS[order]).join(' or ');
+			throw new Error(`Ambiguous date order: dates like "${format.sample}" could be ${options}`);
+		}
+		
+		throw new Error('Could not determine the date order of this chat export');
+	}
+
+	/**
+	 * Parse date and time components into Date object
+	 */
+	static parseDateTime(header: HeaderMatch, format: { order: DateOrder }): Date {
+		const [first, second, third] = header.date.map(num => parseInt(num, 10));
+		let year: number;
+		let month: number;
+		let day: number;
+		
+		switch (format.order) {
+			case 'YMD':
+				[year, month, day] = [first, second, third];
+				break;
+			case 'DMY':
+				[day, month, year] = [first, second, third];
+				break;
+			default:
+				[month, day, year] = [first, second, third];
+		}
 		
 		// Handle 2-digit years
 		const fullYear = year < 100 ? (year > 50 ? 1900 + year : 2000 + year) : year;
 		
-		return new Date(fullYear, month - 1, day, hours, minutes);
+		// Handle 12-hour clock
+		let hours = header.hours;
+		if (header.meridiem === 'pm' && hours < 12) hours += 12;
+		if (header.meridiem === 'am' && hours === 12) hours = 0;
+		
+		return new Date(fullYear, month - 1, day, hours, header.minutes, header.seconds);
 	}
 
 	/**
-	 * Generate a meaningful chat name based on participants and content
+	 * Generate a meaningful chat name from the group subject, or the participants when there is none
 	 */
-	private static generateChatName(participants: string[], messages: ParsedMessage[]): string {
+	static generateChatName(participants: string[], subject: string | null): string {
 		log.info('Generating a meaningful chat name based on participants and content');
+		if (subject) {
+			return subject;
+		}
+		
 		if (participants.length === 0) {
 			return 'Unknown Chat';
 		}
@@ -139,20 +306,6 @@ export class WhatsAppParser {
 			return participants.join(' & ');
 		}
 		
-		// For group chats, try to find a meaningful name from the first few messages
-		const firstMessages = messages.slice(0, 10);
-		const groupNamePattern = /added|created|changed.*subject|group/i;
-		
-		for (const message of firstMessages) {
-			if (groupNamePattern.test(message.content)) {
-				// Try to extract group name from system messages
-				const subjectMatch = message.content.match(/subject.*?["']([^"']+)["']/i);
-				if (subjectMatch) {
-					return subjectMatch[1];
-				}
-			}
-		}
-		
 		// Fallback to participant names
 		if (participants.length <= 4) {
 			return participants.join(', ');
@@ -164,83 +317,91 @@ export class WhatsAppParser {
 	/**
 	 * Validate if the content looks like a WhatsApp chat export
 	 */
-	static validate(content: string): {
-		isValid: boolean;
-		errors: string[];
-	} {
+	static validate(content: string): ChatValidation {
 		log.info('Validating if the content looks like a WhatsApp chat export');
-		const errors: string[] = [];
-		
-		if (!content || content.trim().length === 0) {
-			errors.push('Content is empty');
-			return { isValid: false, errors };
-		}
-		
-		const lines = content.split('\n').filter(line => line.trim());
+		const detector = new FormatDetector();
 		
-		if (lines.length === 0) {
-			errors.push('No valid lines found');
-			return { isValid: false, errors };
+		for (const line of content.split('\n')) {
+			detector.addLine(line);
 		}
 		
-		// Check if at least some lines match the expected format
-		let validMessageCount = 0;
-		let totalNonEmptyLines = 0;
+		return this.evaluate(detector);
+	}
+
+	/**
+	 * Turn the statistics gathered by a format detector into a validation result
+	 */
+	static evaluate(detector: FormatDetector): ChatValidation {
+		const errors: string[] = [];
+		const warnings: string[] = [];
 		
-		for (const line of lines.slice(0, Math.min(50, lines.length))) {
-			if (line.trim()) {
-				totalNonEmptyLines++;
-				if (this.MESSAGE_REGEX.test(line) || this.SYSTEM_MESSAGE_REGEX.test(line)) {
-					validMessageCount++;
-				}
-			}
+		if (detector.lineCount === 0) {
+			errors.push('Content is empty');
+			return { isValid: false, errors, warnings, format: null };
 		}
 		
-		const validRatio = validMessageCount / totalNonEmptyLines;
+		// Check if at least some of the first lines match the expected format
+		const validRatio = detector.sampledHeaderCount / detector.sampledLineCount;
 		
 		if (validRatio < 0.3) {
 			errors.push('Content does not appear to be a WhatsApp chat export');
 			errors.push(`Only ${Math.round(validRatio * 100)}% of lines match expected format`);
 		}
 		
-		if (validMessageCount === 0) {
+		if (detector.sampledHeaderCount === 0) {
 			errors.push('No valid message format found');
-			errors.push('Expected format: "MM/DD/YY, HH:MM - Sender: Message"');
+			errors.push('Expected format: "DD/MM/YY, HH:MM - Sender: Message" (Android) or "[DD/MM/YY, HH:MM:SS] Sender: Message" (iOS), in any date order with a 12h or 24h clock');
+			return { isValid: false, errors, warnings, format: null };
+		}
+		
+		const format = detector.getFormat();
+		
+		if (format.ambiguous) {
+			const options = format.candidateOrders.map(order => this.ORDER_LABELS[order]).join(' or ');
+			warnings.push(`Ambiguous date order: dates like "${format.sample}" could be ${options}`);
+		} else if (!format.order) {
+			errors.push('Dates are inconsistent: no day/month order fits every message');
 		}
 		
 		return {
 			isValid: errors.length === 0,
-			errors
+			errors,
+			warnings,
+			format
 		};
 	}
 
 	/**
 	 * Extract chat preview information without full parsing
 	 */
-	static getPreview(content: string): {
+	static getPreview(content: string, format?: DateFormat): {
 		participantCount: number;
 		messageCount: number;
 		dateRange: string;
+		format: DateFormat;
 		firstFewMessages: ParsedMessage[];
 	} {
 		log.info('Extracting chat preview information without full parsing');
+		const dateFormat = format ?? this.detectFormat(content);
 		const lines = content.split('\n').filter(line => line.trim()).slice(0, 20);
 		const participants = new Set<string>();
 		const messages: ParsedMessage[] = [];
 		
 		for (const line of lines) {
-			const messageMatch = line.match(this.MESSAGE_REGEX);
-			if (messageMatch) {
-				const [, date, time, sender, messageContent] = messageMatch;
-				const cleanSender = sender.replace(/^~\s/, '').trim();
-				participants.add(cleanSender);
+			const header = this.matchHeader(line);
+			const body = header ? this.splitBody(header) : null;
+			if (header && body?.sender && !this.isSystemLine(body, participants, null)) {
+				participants.add(body.sender);
 				
-				if (messages.length < 5) {
-					messages.push({
-						timestamp: this.parseDateTime(date, time),
-						sender: cleanSender,
-						content: messageContent.trim()
-					});
+				// Without a known date order the timestamps would be guesses, so only count participants
+				if (dateFormat.order && messages.length < 5) {
+					const message: PendingMessage = {
+						timestamp: this.parseDateTime(header, { order: dateFormat.order }),
+						sender: body.sender,
+						content: body.content,
+						attachment: body.attachment
+					};
+					messages.push({ ...message, kind: MessageClassifier.classify(message) });
 				}
 			}
 		}
@@ -249,13 +410,217 @@ export class WhatsAppParser {
 		const totalLines = content.split('\n').filter(line => line.trim()).length;
 		const estimatedMessageCount = Math.round(totalLines * 0.8); // Rough estimate
 		
+		let dateRange = 'Unknown';
+		if (dateFormat.ambiguous) {
+			dateRange = 'Ambiguous date order';
+		} else if (messages.length > 0) {
+			dateRange = `${messages[0].timestamp.toLocaleDateString()} - ${messages[messages.length - 1].timestamp.toLocaleDateString()}`;
+		}
+		
 		return {
 			participantCount: participants.size,
 			messageCount: estimatedMessageCount,
-			dateRange: messages.length > 0 ? 
-				`${messages[0].timestamp.toLocaleDateString()} - ${messages[messages.length - 1].timestamp.toLocaleDateString()}` :
-				'Unknown',
+			dateRange,
+			format: dateFormat,
 			firstFewMessages: messages
 		};
 	}
 }
+
+/**
+ * Incremental scanner that gathers date format evidence line by line
+ */
+export class FormatDetector {
+	// Only the first lines decide whether the file looks like an export at all
+	private static readonly SAMPLE_SIZE = 50;
+
+	lineCount = 0;
+	sampledLineCount = 0;
+	sampledHeaderCount = 0;
+
+	private headerCount = 0;
+	private sample: string | null = null;
+	private separatorCounts = new Map<string, number>();
+	private platformCounts: Record<ExportPlatform, number> = { android: 0, ios: 0 };
+	private hasMeridiem = false;
+	private hasSeconds = false;
+	private yearFirst = false;
+	private maxFirst = 0;
+	private maxSecond = 0;
+	private inversions: Record<'DMY' | 'MDY', number> = { DMY: 0, MDY: 0 };
+	private previousTimes: Record<'DMY' | 'MDY', number> = { DMY: -Infinity, MDY: -Infinity };
+
+	/**
+	 * Record the format evidence found on one line
+	 */
+	addLine(line: string): void {
+		if (!line.trim()) return;
+		
+		this.lineCount++;
+		const header = WhatsAppParser.matchHeader(line);
+		
+		if (this.sampledLineCount < FormatDetector.SAMPLE_SIZE) {
+			this.sampledLineCount++;
+			if (header) this.sampledHeaderCount++;
+		}
+		
+		if (!header) return;
+		
+		this.headerCount++;
+		if (!this.sample) this.sample = header.date.join(header.separator);
+		this.platformCounts[header.platform]++;
+		this.separatorCounts.set(header.separator, (this.separatorCounts.get(header.separator) || 0) + 1);
+		if (header.meridiem) this.hasMeridiem = true;
+		if (header.hasSeconds) this.hasSeconds = true;
+		if (header.date[0].length === 4) this.yearFirst = true;
+		this.maxFirst = Math.max(this.maxFirst, parseInt(header.date[0], 10));
+		this.maxSecond = Math.max(this.maxSecond, parseInt(header.date[1], 10));
+		
+		// Day/month values alone can't tell DD/MM from MM/DD; exports are chronological, so count how often each reading goes backwards
+		for (const order of ['DMY', 'MDY'] as const) {
+			const time = WhatsAppParser.parseDateTime(header, { order }).getTime();
+			if (time < this.previousTimes[order]) this.inversions[order]++;
+			this.previousTimes[order] = time;
+		}
+	}
+
+	/**
+	 * Summarise the evidence gathered so far into a date format
+	 */
+	getFormat(): DateFormat {
+		let separator = '/';
+		let bestCount = 0;
+		for (const [candidate, count] of this.separatorCounts) {
+			if (count > bestCount) {
+				separator = candidate;
+				bestCount = count;
+			}
+		}
+		
+		let candidateOrders: DateOrder[];
+		if (this.yearFirst) {
+			candidateOrders = ['YMD'];
+		} else {
+			candidateOrders = [];
+			if (this.maxSecond <= 12) candidateOrders.push('DMY');
+			if (this.maxFirst <= 12) candidateOrders.push('MDY');
+		}
+		
+		// Prefer the order that keeps the export sorted, unless both fit equally well
+		if (candidateOrders.length > 1 && this.headerCount > 1 && this.inversions.DMY !== this.inversions.MDY) {
+			candidateOrders = [this.inversions.DMY < this.inversions.MDY ? 'DMY' : 'MDY'];
+		}
+		
+		return {
+			platform: this.platformCounts.ios > this.platformCounts.android ? 'ios' : 'android',
+			order: candidateOrders.length === 1 ? candidateOrders[0] : null,
+			candidateOrders,
+			ambiguous: candidateOrders.length > 1,
+			separator,
+			clock: this.hasMeridiem ? '12h' : '24h',
+			hasSeconds: this.hasSeconds,
+			sample: this.sample
+		};
+	}
+}
+
+/**
+ * Incremental parser that turns export lines into messages as they arrive
+ */
+export class ChatStreamParser {
+	private readonly format: DateFormat & { order: DateOrder };
+	private pending: ParsedMessage[] = [];
+	private currentMessage: PendingMessage | null = null;
+	private participantSet = new Set<string>();
+	private history = new GroupHistory();
+	private firstTimestamp: Date | null = null;
+	private lastTimestamp: Date | null = null;
+
+	messageCount = 0;
+
+	constructor(format: DateFormat) {
+		this.format = WhatsAppParser.requireDateOrder(format);
+	}
+
+	/**
+	 * Number of completed messages waiting to be drained
+	 */
+	get pendingCount(): number {
+		return this.pending.length;
+	}
+
+	/**
+	 * Feed one line of the export
+	 */
+	push(line: string): void {
+		if (!line.trim()) return;
+		
+		const header = WhatsAppParser.matchHeader(line);
+		const body = header ? WhatsAppParser.splitBody(header) : null;
+		
+		if (header && body) {
+			// Save previous message if exists
+			if (this.currentMessage) {
+				this.emit(this.currentMessage);
+			}
+			
+			// System messages (like the encryption notice) are kept open too, so lines wrapped after them aren't lost
+			const system = WhatsAppParser.isSystemLine(body, this.participantSet, this.history.currentSubject);
+			if (!system && body.sender) this.participantSet.add(body.sender);
+			this.currentMessage = {
+				timestamp: WhatsAppParser.parseDateTime(header, this.format),
+				sender: system || !body.sender ? 'System' : body.sender,
+				content: body.content
+			};
+			if (body.attachment) {
+				this.currentMessage.attachment = body.attachment;
+			}
+		} else if (this.currentMessage) {
+			// Continuation of previous message (multiline)
+			this.currentMessage.content += '\n' + WhatsAppParser.stripHiddenMarks(line).trim();
+		}
+	}
+
+	/**
+	 * Take the messages completed since the last drain
+	 */
+	drain(): ParsedMessage[] {
+		const messages = this.pending;
+		this.pending = [];
+		return messages;
+	}
+
+	/**
+	 * Flush the last message and build the chat metadata
+	 */
+	finish(): ChatMetadata {
+		if (this.currentMessage) {
+			this.emit(this.currentMessage);
+			this.currentMessage = null;
+		}
+		
+		const participants = Array.from(this.participantSet).filter(p => p !== 'System');
+		
+		return {
+			name: WhatsAppParser.generateChatName(participants, this.history.currentSubject),
+			participants,
+			messageCount: this.messageCount,
+			dateRange: {
+				start: this.firstTimestamp ?? new Date(),
+				end: this.lastTimestamp ?? new Date()
+			}
+		};
+	}
+
+	/**
+	 * Queue a completed message and update the running metadata
+	 */
+	private emit(pendingMessage: PendingMessage): void {
+		const message: ParsedMessage = { ...pendingMessage, kind: MessageClassifier.classify(pendingMessage) };
+		this.pending.push(message);
+		this.messageCount++;
+		if (!this.firstTimestamp) this.firstTimestamp = message.timestamp;
+		this.lastTimestamp = message.timestamp;
+		this.history.add(message);
+	}
+}
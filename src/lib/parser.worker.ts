@@ -0,0 +1,114 @@
+import { WhatsAppParser, FormatDetector, ChatStreamParser } from './parser';
+import type { DateFormat, DateOrder } from './parser';
+import type { ParserWorkerRequest, ParserWorkerResponse, ParseProgress } from './importer';
+
+// Messages are posted back in batches so the main thread never receives one huge array
+const BATCH_SIZE = 2000;
+
+let resolveOrder: ((order: DateOrder) => void) | null = null;
+
+/**
+ * Post a response to the main thread
+ */
+function post(response: ParserWorkerResponse): void {
+	self.postMessage(response);
+}
+
+/**
+ * Read a file as a stream of text lines, reporting bytes consumed after each chunk
+ */
+async function* readLines(file: Blob, onChunk: (bytesRead: number) => void): AsyncGenerator<string> {
+	const reader = file.stream().getReader();
+	const decoder = new TextDecoder('utf-8');
+	let buffer = '';
+	let bytesRead = 0;
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		bytesRead += value.byteLength;
+		buffer += decoder.decode(value, { stream: true });
+
+		const lines = buffer.split('\n');
+		buffer = lines.pop() ?? '';
+		for (const line of lines) {
+			yield line;
+		}
+
+		onChunk(bytesRead);
+	}
+
+	buffer += decoder.decode();
+	if (buffer) {
+		yield buffer;
+	}
+}
+
+/**
+ * Scan the whole file for date format evidence and validate it
+ */
+async function detectFormat(file: Blob): Promise<DateFormat> {
+	const detector = new FormatDetector();
+	const progress: ParseProgress = { phase: 'scanning', bytesRead: 0, totalBytes: file.size, messagesFound: 0 };
+
+	for await (const line of readLines(file, bytesRead => {
+		post({ type: 'progress', progress: { ...progress, bytesRead } });
+	})) {
+		detector.addLine(line);
+	}
+
+	const validation = WhatsAppParser.evaluate(detector);
+	if (!validation.isValid || !validation.format) {
+		throw new Error(`Invalid WhatsApp chat format:\n${validation.errors.join('\n')}`);
+	}
+
+	if (!validation.format.ambiguous) {
+		return validation.format;
+	}
+
+	// Ask the main thread instead of guessing, and wait for the answer
+	const order = await new Promise<DateOrder>(resolve => {
+		resolveOrder = resolve;
+		post({ type: 'format', format: validation.format! });
+	});
+	return WhatsAppParser.withDateOrder(validation.format, order);
+}
+
+/**
+ * Parse the file and stream message batches back to the main thread
+ */
+async function parseFile(file: Blob, format?: DateFormat): Promise<void> {
+	const dateFormat = format ?? await detectFormat(file);
+	const parser = new ChatStreamParser(dateFormat);
+
+	for await (const line of readLines(file, bytesRead => {
+		post({
+			type: 'progress',
+			progress: { phase: 'parsing', bytesRead, totalBytes: file.size, messagesFound: parser.messageCount }
+		});
+	})) {
+		parser.push(line);
+		if (parser.pendingCount >= BATCH_SIZE) {
+			post({ type: 'batch', messages: parser.drain() });
+		}
+	}
+
+	const metadata = parser.finish();
+	post({ type: 'batch', messages: parser.drain() });
+	post({ type: 'done', metadata, format: dateFormat });
+}
+
+self.onmessage = (event: MessageEvent<ParserWorkerRequest>) => {
+	const request = event.data;
+
+	if (request.type === 'resolve') {
+		resolveOrder?.(request.order);
+		resolveOrder = null;
+		return;
+	}
+
+	parseFile(request.file, request.format).catch(error => {
+		post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to parse chat' });
+	});
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SearchQueryError, SearchQueryMatcher, SearchQueryParser, type QueryableMessage } from './query';
+
+const message: QueryableMessage = {
+	timestamp: new Date(2024, 2, 10, 14, 0),
+	sender: 'Zoë Martin',
+	content: 'Tickets for the café are at https://example.com/tickets'
+};
+
+/**
+ * Parse a query and match it against the sample message
+ */
+function matches(source: string, target: QueryableMessage = message): boolean {
+	return SearchQueryMatcher.matches(target, SearchQueryParser.parse(source));
+}
+
+describe('SearchQueryParser', () => {
+	it('parses operators, phrases, regexes and negation', () => {
+		const { clauses } = SearchQueryParser.parse('from:zoe "the cafe" /tick\\w+/i -has:media after:2024-03-01');
+		expect(clauses.map(clause => [clause.type, clause.negated])).toEqual([
+			['from', false],
+			['phrase', false],
+			['regex', false],
+			['has', true],
+			['after', false]
+		]);
+	});
+
+	it('reports where invalid syntax starts', () => {
+		const result = SearchQueryParser.tryParse('hello after:2024-13-40');
+		expect(result.query).toBeNull();
+		expect(result.error).toBeInstanceOf(SearchQueryError);
+		expect(result.error?.position).toBe(6);
+	});
+});
+
+describe('SearchQueryMatcher', () => {
+	it('matches word prefixes and phrases ignoring case and accents', () => {
+		expect(matches('TICK cafe')).toBe(true);
+		expect(matches('"for the cafe"')).toBe(true);
+		expect(matches('"the tickets"')).toBe(false);
+	});
+
+	it('matches senders, dates and links', () => {
+		expect(matches('from:zoe has:link')).toBe(true);
+		expect(matches('before:2024-03-10 after:2024-03-10')).toBe(true);
+		expect(matches('after:2024-03-11')).toBe(false);
+		expect(matches('-has:link')).toBe(false);
+	});
+
+	it('treats attachments and omitted media as media', () => {
+		expect(matches('has:media', { ...message, content: '<Media omitted>' })).toBe(true);
+		expect(matches('has:media', { ...message, attachment: 'photo.jpg' })).toBe(true);
+		expect(matches('has:media')).toBe(false);
+	});
+
+	it('matches nothing for an empty query', () => {
+		expect(matches('')).toBe(false);
+	});
+});
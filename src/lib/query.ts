@@ -0,0 +1,355 @@
+import { SearchTokenizer } from './search';
+import type { MessageKind } from './kinds';
+
+/**
+ * One condition of a search query; `negated` clauses must not match
+ */
+export type SearchClause =
+	| { type: 'text'; value: string; terms: string[]; negated: boolean }
+	| { type: 'phrase'; value: string; terms: string[]; negated: boolean }
+	| { type: 'regex'; pattern: RegExp; negated: boolean }
+	| { type: 'from'; value: string; negated: boolean }
+	| { type: 'after'; date: Date; negated: boolean }
+	| { type: 'before'; date: Date; negated: boolean }
+	| { type: 'has'; value: SearchHasValue; negated: boolean };
+
+export type SearchHasValue = 'media' | 'link';
+
+/**
+ * Parsed search query; a message matches when every clause does
+ */
+export interface SearchQuery {
+	source: string;
+	clauses: SearchClause[];
+}
+
+/**
+ * Message fields a query is evaluated against
+ */
+export interface QueryableMessage {
+	timestamp: Date;
+	sender: string;
+	content: string;
+	attachment?: string;
+	kind?: MessageKind;
+}
+
+/**
+ * Outcome of parsing user input that may not be valid
+ */
+export type SearchQueryParseResult =
+	| { query: SearchQuery; error: null }
+	| { query: null; error: SearchQueryError };
+
+/**
+ * Invalid query syntax, with the character offset the problem starts at
+ */
+export class SearchQueryError extends Error {
+	constructor(message: string, readonly position: number) {
+		super(message);
+		this.name = 'SearchQueryError';
+	}
+}
+
+/**
+ * Parser for the search syntax:
+ *
+ *   word           messages containing a word starting with "word"
+ *   "exact phrase" messages containing these words in this order
+ *   /regex/i       messages whose text matches the regular expression
+ *   from:Alice     messages from a sender whose name contains "Alice"
+ *   after:DATE     messages on or after a YYYY-MM-DD date
+ *   before:DATE    messages on or before a YYYY-MM-DD date
+ *   has:media      messages with an attachment or omitted media
+ *   has:link       messages containing a URL
+ *   -clause        excludes messages matching any of the above
+ *
+ * Case and accents are ignored everywhere except inside regular expressions.
+ */
+export class SearchQueryParser {
+	private static readonly OPERATORS = new Set(['from', 'after', 'before', 'has']);
+	private static readonly HAS_VALUES: SearchHasValue[] = ['media', 'link'];
+	private static readonly DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+	private static readonly REGEX_FLAGS_REGEX = /^[imsu]*$/;
+
+	/**
+	 * Parse a query, throwing a SearchQueryError on invalid syntax
+	 */
+	static parse(source: string): SearchQuery {
+		const clauses: SearchClause[] = [];
+		let position = 0;
+
+		while (position < source.length) {
+			if (/\s/.test(source[position])) {
+				position++;
+				continue;
+			}
+
+			const start = position;
+			const negated = source[position] === '-';
+			if (negated) {
+				position++;
+				if (position >= source.length || /\s/.test(source[position])) {
+					throw new SearchQueryError(`Nothing to exclude after "-" at position ${start + 1}`, start);
+				}
+			}
+
+			let clause: SearchClause;
+			if (source[position] === '"') {
+				const { value, end } = this.readQuoted(source, position);
+				clause = this.phraseClause(value, negated, start);
+				position = end;
+			} else if (source[position] === '/') {
+				const { pattern, end } = this.readRegex(source, position);
+				clause = { type: 'regex', pattern, negated };
+				position = end;
+			} else {
+				const wordEnd = this.findWordEnd(source, position);
+				const word = source.slice(position, wordEnd);
+				const colon = word.indexOf(':');
+				const operator = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+
+				if (this.OPERATORS.has(operator)) {
+					const valueStart = position + colon + 1;
+					let value: string;
+					if (source[valueStart] === '"') {
+						const quoted = this.readQuoted(source, valueStart);
+						value = quoted.value;
+						position = quoted.end;
+					} else {
+						value = source.slice(valueStart, wordEnd);
+						position = wordEnd;
+					}
+					clause = this.operatorClause(operator, value, negated, start);
+				} else {
+					clause = { type: 'text', value: word, terms: SearchTokenizer.tokenize(word), negated };
+					position = wordEnd;
+				}
+			}
+
+			clauses.push(clause);
+		}
+
+		return { source, clauses };
+	}
+
+	/**
+	 * Parse a query, returning the error instead of throwing it
+	 */
+	static tryParse(source: string): SearchQueryParseResult {
+		try {
+			return { query: this.parse(source), error: null };
+		} catch (error) {
+			if (error instanceof SearchQueryError) {
+				return { query: null, error };
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Build the clause for a `key:value` operator
+	 */
+	private static operatorClause(operator: string, value: string, negated: boolean, start: number): SearchClause {
+		if (!value.trim()) {
+			throw new SearchQueryError(`Missing value for "${operator}:" at position ${start + 1}`, start);
+		}
+
+		switch (operator) {
+			case 'from':
+				return { type: 'from', value, negated };
+			case 'after':
+				return { type: 'after', date: this.parseDate(operator, value, start), negated };
+			case 'before':
+				return { type: 'before', date: this.parseDate(operator, value, start), negated };
+			default: {
+				const hasValue = value.toLowerCase() as SearchHasValue;
+				if (!this.HAS_VALUES.includes(hasValue)) {
+					throw new SearchQueryError(
+						`Unknown "has:${value}" at position ${start + 1}; use ${this.HAS_VALUES.map(v => `has:${v}`).join(' or ')}`,
+						start
+					);
+				}
+				return { type: 'has', value: hasValue, negated };
+			}
+		}
+	}
+
+	/**
+	 * Build a phrase clause, rejecting phrases without any searchable words
+	 */
+	private static phraseClause(value: string, negated: boolean, start: number): SearchClause {
+		const terms = SearchTokenizer.tokenize(value);
+		if (terms.length === 0) {
+			throw new SearchQueryError(`Empty phrase at position ${start + 1}`, start);
+		}
+		return { type: 'phrase', value, terms, negated };
+	}
+
+	/**
+	 * Read a double-quoted string starting at `position`
+	 */
+	private static readQuoted(source: string, position: number): { value: string; end: number } {
+		const close = source.indexOf('"', position + 1);
+		if (close === -1) {
+			throw new SearchQueryError(`Unclosed quote at position ${position + 1}`, position);
+		}
+		return { value: source.slice(position + 1, close), end: close + 1 };
+	}
+
+	/**
+	 * Read a `/pattern/flags` regular expression starting at `position`
+	 */
+	private static readRegex(source: string, position: number): { pattern: RegExp; end: number } {
+		let close = position + 1;
+		while (close < source.length && source[close] !== '/') {
+			// Skip escaped characters so `\/` stays inside the pattern
+			close += source[close] === '\\' ? 2 : 1;
+		}
+		if (close >= source.length) {
+			throw new SearchQueryError(`Unclosed regular expression at position ${position + 1}`, position);
+		}
+
+		const end = this.findWordEnd(source, close + 1);
+		const body = source.slice(position + 1, close);
+		const flags = source.slice(close + 1, end);
+		if (!body) {
+			throw new SearchQueryError(`Empty regular expression at position ${position + 1}`, position);
+		}
+		if (!this.REGEX_FLAGS_REGEX.test(flags)) {
+			throw new SearchQueryError(`Unsupported regular expression flags "${flags}" at position ${close + 2}`, close + 1);
+		}
+
+		try {
+			// Without explicit flags, match case-insensitively like the rest of the search
+			return { pattern: new RegExp(body, flags || 'i'), end };
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : 'invalid pattern';
+			throw new SearchQueryError(`Invalid regular expression at position ${position + 1}: ${reason}`, position);
+		}
+	}
+
+	/**
+	 * Parse a YYYY-MM-DD date as local midnight
+	 */
+	private static parseDate(operator: string, value: string, start: number): Date {
+		const match = value.match(this.DATE_REGEX);
+		const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+
+		// Reject dates like 2024-02-31 that the Date constructor would roll over
+		if (!match || !date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+			throw new SearchQueryError(
+				`Invalid date "${value}" for "${operator}:" at position ${start + 1}; use YYYY-MM-DD`,
+				start
+			);
+		}
+		return date;
+	}
+
+	/**
+	 * Index of the next whitespace at or after `position`
+	 */
+	private static findWordEnd(source: string, position: number): number {
+		let end = position;
+		while (end < source.length && !/\s/.test(source[end])) {
+			end++;
+		}
+		return end;
+	}
+}
+
+/**
+ * Evaluates parsed queries against messages
+ */
+export class SearchQueryMatcher {
+	private static readonly LINK_REGEX = /\bhttps?:\/\/\S+|\bwww\.\S+/i;
+	private static readonly MEDIA_OMITTED_PATTERNS = [
+		'<media omitted>',
+		'image omitted',
+		'video omitted',
+		'audio omitted',
+		'document omitted',
+		'gif omitted',
+		'sticker omitted'
+	];
+
+	/**
+	 * Check whether a message satisfies every clause of a query
+	 */
+	static matches(message: QueryableMessage, query: SearchQuery): boolean {
+		if (query.clauses.length === 0) return false;
+
+		// Tokenize lazily; date and sender clauses don't need it
+		let words: string[] | null = null;
+		const getWords = () => words ??= [...SearchTokenizer.tokenize(message.sender), ...SearchTokenizer.tokenize(message.content)];
+
+		return query.clauses.every(clause => this.matchesClause(message, clause, getWords) !== clause.negated);
+	}
+
+	/**
+	 * Terms that can be looked up in the search index to narrow candidates;
+	 * empty when no positive clause is indexable and every message must be checked
+	 */
+	static indexTerms(query: SearchQuery): string[] {
+		const terms = new Set<string>();
+		for (const clause of query.clauses) {
+			if (clause.negated) continue;
+			if (clause.type === 'text' || clause.type === 'phrase') {
+				clause.terms.forEach(term => terms.add(term));
+			}
+		}
+		return [...terms];
+	}
+
+	/**
+	 * Terms worth highlighting in matching messages
+	 */
+	static highlightTerms(query: SearchQuery): string[] {
+		return this.indexTerms(query);
+	}
+
+	/**
+	 * Evaluate one clause, ignoring its negation
+	 */
+	private static matchesClause(message: QueryableMessage, clause: SearchClause, getWords: () => string[]): boolean {
+		switch (clause.type) {
+			case 'text':
+				// Words without letters or digits, such as emoji, fall back to a substring match
+				return clause.terms.length > 0
+					? clause.terms.every(term => getWords().some(word => word.startsWith(term)))
+					: SearchTokenizer.normalize(message.content).includes(SearchTokenizer.normalize(clause.value));
+			case 'phrase':
+				return ` ${getWords().join(' ')} `.includes(` ${clause.terms.join(' ')} `);
+			case 'regex':
+				return clause.pattern.test(message.content);
+			case 'from':
+				return SearchTokenizer.normalize(message.sender).includes(SearchTokenizer.normalize(clause.value));
+			case 'after':
+				return message.timestamp.getTime() >= clause.date.getTime();
+			case 'before':
+				// Inclusive: anything before midnight at the start of the following day
+				return message.timestamp.getTime() <
+					new Date(clause.date.getFullYear(), clause.date.getMonth(), clause.date.getDate() + 1).getTime();
+			case 'has':
+				return clause.value === 'link' ? this.hasLink(message) : this.hasMedia(message);
+		}
+	}
+
+	/**
+	 * Whether a message contains a URL
+	 */
+	static hasLink(message: Pick<QueryableMessage, 'content'>): boolean {
+		return this.LINK_REGEX.test(message.content);
+	}
+
+	/**
+	 * Whether a message carries an attachment or a placeholder for omitted media
+	 */
+	static hasMedia(message: Pick<QueryableMessage, 'content' | 'attachment' | 'kind'>): boolean {
+		if (message.attachment) return true;
+		if (message.kind) return message.kind.type === 'media-omitted';
+
+		const content = message.content.toLowerCase();
+		return this.MEDIA_OMITTED_PATTERNS.some(pattern => content.includes(pattern));
+	}
+}
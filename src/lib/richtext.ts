@@ -0,0 +1,355 @@
+import { SearchTokenizer } from './search';
+
+/**
+ * Inline piece of formatted message text
+ */
+export type RichInline =
+	| { type: 'text'; text: string }
+	| { type: 'bold' | 'italic' | 'strike'; children: RichInline[] }
+	| { type: 'code' | 'monospace'; text: string }
+	| { type: 'link'; kind: 'url' | 'email' | 'phone'; href: string; text: string }
+	| { type: 'mention'; text: string };
+
+/**
+ * One line of inline content
+ */
+export type RichLine = RichInline[];
+
+/**
+ * Block of formatted message text
+ */
+export type RichBlock =
+	| { type: 'paragraph'; lines: RichLine[] }
+	| { type: 'quote'; lines: RichLine[] }
+	| { type: 'list'; ordered: boolean; start: number; items: RichLine[] }
+	| { type: 'monospace'; text: string };
+
+/**
+ * Parses WhatsApp formatting into a tree of blocks and inline nodes
+ *
+ * Supports `*bold*`, `_italic_`, `~strike~`, inline `` `code` ``, ```` ```monospace``` ````
+ * (inline or spanning lines), `> ` quotes and `* `, `- ` or `1. ` lists, and picks out
+ * links, email addresses, international phone numbers and @mentions. The tree only
+ * holds plain strings; turning it into markup is the renderer's job.
+ */
+export class RichTextParser {
+	private static readonly STYLE_MARKERS: Record<string, 'bold' | 'italic' | 'strike'> = {
+		'*': 'bold',
+		'_': 'italic',
+		'~': 'strike'
+	};
+	private static readonly FENCE = '```';
+	private static readonly WORD_CHAR_REGEX = /[\p{L}\p{N}]/u;
+	private static readonly QUOTE_REGEX = /^> ?(.*)$/;
+	private static readonly BULLET_REGEX = /^[*-] (.*)$/;
+	private static readonly ORDERED_REGEX = /^(\d{1,3})\. (.*)$/;
+	private static readonly URL_REGEX = /(?:https?:\/\/|www\.)[^\s<>]+/iy;
+	private static readonly EMAIL_REGEX = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/y;
+	// Only international numbers; local ones are too easily confused with amounts and codes
+	private static readonly PHONE_REGEX = /\+\d[\d ().-]{6,18}\d/y;
+	private static readonly MENTION_REGEX = /@(?:\+?\d[\d ]{5,}\d|[\p{L}\p{N}_.]+)/uy;
+	private static readonly TRAILING_PUNCTUATION_REGEX = /[.,!?;:'"]+$/;
+
+	/**
+	 * Parse message text; `names` lets mentions of multi-word names be recognised whole
+	 */
+	static parse(content: string, names: string[] = []): RichBlock[] {
+		const blocks: RichBlock[] = [];
+		const lines = content.split('\n');
+		// Longest first, so "@Ann Lee" wins over "@Ann"
+		const mentionNames = [...names].sort((a, b) => b.length - a.length);
+
+		const push = (type: 'paragraph' | 'quote', line: RichLine) => {
+			const last = blocks[blocks.length - 1];
+			if (last?.type === type) {
+				last.lines.push(line);
+			} else {
+				blocks.push({ type, lines: [line] });
+			}
+		};
+
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i];
+
+			// A fence left open on this line runs until a later line closes it
+			const fenceStart = this.findOpenFence(line);
+			const closingLine = fenceStart === -1 ? -1 : lines.findIndex((candidate, index) => index > i && candidate.includes(this.FENCE));
+			if (closingLine !== -1) {
+				const before = line.slice(0, fenceStart);
+				if (before.trim()) push('paragraph', this.parseInline(before, mentionNames));
+
+				const last = lines[closingLine];
+				const fenceEnd = last.indexOf(this.FENCE);
+				const text = [line.slice(fenceStart + this.FENCE.length), ...lines.slice(i + 1, closingLine), last.slice(0, fenceEnd)].join('\n');
+				blocks.push({ type: 'monospace', text });
+
+				// Whatever follows the closing fence is read as a line of its own
+				lines[closingLine] = last.slice(fenceEnd + this.FENCE.length);
+				i = closingLine - 1;
+				if (!lines[closingLine].trim()) i++;
+				continue;
+			}
+
+			const quote = line.match(this.QUOTE_REGEX);
+			if (quote) {
+				push('quote', this.parseInline(quote[1], mentionNames));
+				continue;
+			}
+
+			const bullet = line.match(this.BULLET_REGEX);
+			const ordered = bullet ? null : line.match(this.ORDERED_REGEX);
+			if (bullet || ordered) {
+				const item = this.parseInline(bullet ? bullet[1] : ordered![2], mentionNames);
+				const last = blocks[blocks.length - 1];
+				if (last?.type === 'list' && last.ordered === Boolean(ordered)) {
+					last.items.push(item);
+				} else {
+					blocks.push({ type: 'list', ordered: Boolean(ordered), start: ordered ? parseInt(ordered[1], 10) : 1, items: [item] });
+				}
+				continue;
+			}
+
+			push('paragraph', this.parseInline(line, mentionNames));
+		}
+
+		return blocks;
+	}
+
+	/**
+	 * Parse one line into inline nodes
+	 */
+	static parseInline(text: string, names: string[] = []): RichLine {
+		const nodes: RichLine = [];
+		let buffer = '';
+		let i = 0;
+
+		const flush = () => {
+			if (buffer) nodes.push({ type: 'text', text: buffer });
+			buffer = '';
+		};
+		const emit = (node: RichInline, length: number) => {
+			flush();
+			nodes.push(node);
+			i += length;
+		};
+
+		while (i < text.length) {
+			const char = text[i];
+			const atBoundary = i === 0 || !this.isWordChar(text[i - 1]);
+
+			if (text.startsWith(this.FENCE, i)) {
+				const close = text.indexOf(this.FENCE, i + this.FENCE.length);
+				if (close > i + this.FENCE.length) {
+					emit({ type: 'monospace', text: text.slice(i + this.FENCE.length, close) }, close + this.FENCE.length - i);
+					continue;
+				}
+			}
+
+			if (char === '`') {
+				const close = text.indexOf('`', i + 1);
+				if (close > i + 1) {
+					emit({ type: 'code', text: text.slice(i + 1, close) }, close + 1 - i);
+					continue;
+				}
+			}
+
+			const style = this.STYLE_MARKERS[char];
+			if (style && atBoundary) {
+				const close = this.findClosingMarker(text, i);
+				if (close !== -1) {
+					emit({ type: style, children: this.parseInline(text.slice(i + 1, close), names) }, close + 1 - i);
+					continue;
+				}
+			}
+
+			if (atBoundary) {
+				const link = this.matchLink(text, i);
+				if (link) {
+					emit(link, link.text.length);
+					continue;
+				}
+			}
+
+			if (char === '@' && atBoundary) {
+				const mention = this.matchMention(text, i, names);
+				if (mention) {
+					emit({ type: 'mention', text: mention }, mention.length);
+					continue;
+				}
+			}
+
+			buffer += char;
+			i++;
+		}
+
+		flush();
+		return nodes;
+	}
+
+	/**
+	 * Position of a fence that is not closed later on the same line, or -1
+	 */
+	private static findOpenFence(line: string): number {
+		let position = -1;
+		let open = false;
+		for (let index = line.indexOf(this.FENCE); index !== -1; index = line.indexOf(this.FENCE, index + this.FENCE.length)) {
+			open = !open;
+			if (open) position = index;
+		}
+		return open ? position : -1;
+	}
+
+	/**
+	 * Index of the marker closing a style opened at `start`, or -1 when it isn't closed
+	 */
+	private static findClosingMarker(text: string, start: number): number {
+		const marker = text[start];
+		const first = text[start + 1];
+		if (first === undefined || first === marker || /\s/.test(first)) return -1;
+
+		for (let index = start + 2; index < text.length; index++) {
+			if (text[index] !== marker) continue;
+			const next = text[index + 1];
+			if (!/\s/.test(text[index - 1]) && (next === undefined || !this.isWordChar(next))) {
+				return index;
+			}
+		}
+		return -1;
+	}
+
+	/**
+	 * Link, email address or phone number starting at `start`
+	 */
+	private static matchLink(text: string, start: number): Extract<RichInline, { type: 'link' }> | null {
+		const url = this.matchAt(this.URL_REGEX, text, start);
+		if (url) {
+			let value = url.replace(this.TRAILING_PUNCTUATION_REGEX, '');
+			// A closing bracket belongs to the surrounding text unless the link opened one
+			if (value.endsWith(')') && !value.includes('(')) value = value.slice(0, -1);
+			const href = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+			return { type: 'link', kind: 'url', href, text: value };
+		}
+
+		const email = this.matchAt(this.EMAIL_REGEX, text, start);
+		if (email) {
+			const value = email.replace(/\.+$/, '');
+			return { type: 'link', kind: 'email', href: `mailto:${value}`, text: value };
+		}
+
+		const phone = this.matchAt(this.PHONE_REGEX, text, start);
+		if (phone) {
+			const digits = phone.replace(/[^\d]/g, '');
+			if (digits.length >= 8 && digits.length <= 15) {
+				return { type: 'link', kind: 'phone', href: `tel:+${digits}`, text: phone };
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Mention starting at the `@` at `start`, preferring known names
+	 */
+	private static matchMention(text: string, start: number, names: string[]): string | null {
+		for (const name of names) {
+			const candidate = `@${name}`;
+			const next = text[start + candidate.length];
+			if (text.startsWith(candidate, start) && (next === undefined || !this.isWordChar(next))) {
+				return candidate;
+			}
+		}
+
+		const mention = this.matchAt(this.MENTION_REGEX, text, start);
+		return mention ? mention.replace(/\.+$/, '') : null;
+	}
+
+	/**
+	 * Text a sticky regex matches exactly at `start`
+	 */
+	private static matchAt(regex: RegExp, text: string, start: number): string | null {
+		regex.lastIndex = start;
+		return regex.exec(text)?.[0] ?? null;
+	}
+
+	/**
+	 * Whether a character is part of a word, so formatting markers next to it are literal
+	 */
+	private static isWordChar(char: string): boolean {
+		return this.WORD_CHAR_REGEX.test(char);
+	}
+}
+
+/**
+ * Turns parsed message text into HTML
+ *
+ * Every piece of text goes through `SearchTokenizer.highlight`, which escapes it and
+ * marks search matches, so highlighting is a layer over the formatting rather than a
+ * rewrite of the raw content. Only the fixed tags below are ever emitted, and link
+ * targets are limited to the http(s), mailto and tel URLs the parser builds.
+ */
+export class RichTextRenderer {
+	private static readonly INLINE_TAGS = { bold: 'strong', italic: 'em', strike: 's' } as const;
+
+	/**
+	 * Render blocks, marking words that start with one of the normalized terms
+	 */
+	static toHtml(blocks: RichBlock[], highlightTerms: string[] = []): string {
+		return blocks.map(block => this.renderBlock(block, highlightTerms)).join('');
+	}
+
+	/**
+	 * Render one block
+	 */
+	private static renderBlock(block: RichBlock, terms: string[]): string {
+		switch (block.type) {
+			case 'paragraph':
+				return `<div class="rt-paragraph">${this.renderLines(block.lines, terms)}</div>`;
+			case 'quote':
+				return `<blockquote class="rt-quote">${this.renderLines(block.lines, terms)}</blockquote>`;
+			case 'list': {
+				const items = block.items.map(item => `<li>${this.renderInline(item, terms)}</li>`).join('');
+				return block.ordered
+					? `<ol class="rt-list" start="${block.start}">${items}</ol>`
+					: `<ul class="rt-list">${items}</ul>`;
+			}
+			case 'monospace':
+				return `<pre class="rt-pre">${SearchTokenizer.highlight(block.text, terms)}</pre>`;
+		}
+	}
+
+	/**
+	 * Render lines separated by newlines, which the message bubble preserves
+	 */
+	private static renderLines(lines: RichLine[], terms: string[]): string {
+		return lines.map(line => this.renderInline(line, terms)).join('\n');
+	}
+
+	/**
+	 * Render inline nodes
+	 */
+	private static renderInline(nodes: RichInline[], terms: string[]): string {
+		return nodes.map(node => {
+			switch (node.type) {
+				case 'text':
+					return SearchTokenizer.highlight(node.text, terms);
+				case 'bold':
+				case 'italic':
+				case 'strike': {
+					const tag = this.INLINE_TAGS[node.type];
+					return `<${tag}>${this.renderInline(node.children, terms)}</${tag}>`;
+				}
+				case 'code':
+					return `<code class="rt-code">${SearchTokenizer.highlight(node.text, terms)}</code>`;
+				case 'monospace':
+					return `<code class="rt-monospace">${SearchTokenizer.highlight(node.text, terms)}</code>`;
+				case 'link': {
+					const href = SearchTokenizer.escapeHtml(node.href);
+					const target = node.kind === 'url' ? ' target="_blank" rel="noopener noreferrer"' : '';
+					return `<a class="rt-link" href="${href}"${target}>${SearchTokenizer.highlight(node.text, terms)}</a>`;
+				}
+				case 'mention':
+					return `<span class="rt-mention">${SearchTokenizer.highlight(node.text, terms)}</span>`;
+			}
+		}).join('');
+	}
+}
@@ -0,0 +1,125 @@
+/**
+ * Postings for one term within a run of messages
+ */
+export interface TermPostings {
+	messageIndexes: number[];
+	frequencies: number[];
+}
+
+/**
+ * Fields of a message that are indexed for search
+ */
+export interface SearchableMessage {
+	sender: string;
+	content: string;
+}
+
+/**
+ * Word splitting and normalization shared by the search index and query matching
+ *
+ * Text is NFKD-normalized, stripped of combining marks and lowercased, so "Café",
+ * "cafe" and "ＣＡＦＥ" all produce the same term.
+ */
+export class SearchTokenizer {
+	private static readonly WORD_REGEX = /[\p{L}\p{M}\p{N}]+/gu;
+	private static readonly COMBINING_MARKS_REGEX = /\p{M}+/gu;
+	// Longer runs are almost always URLs or base64 noise; cap them to keep index keys small
+	private static readonly MAX_TERM_LENGTH = 32;
+
+	/**
+	 * Fold case, width and diacritics
+	 */
+	static normalize(text: string): string {
+		return text.normalize('NFKD').replace(this.COMBINING_MARKS_REGEX, '').toLowerCase();
+	}
+
+	/**
+	 * Split text into normalized terms, in order and with repeats
+	 */
+	static tokenize(text: string): string[] {
+		const terms: string[] = [];
+		for (const match of this.normalize(text).matchAll(this.WORD_REGEX)) {
+			terms.push(match[0].slice(0, this.MAX_TERM_LENGTH));
+		}
+		return terms;
+	}
+
+	/**
+	 * Build the inverted postings for a run of messages starting at `startIndex`
+	 */
+	static buildPostings(messages: SearchableMessage[], startIndex: number): Map<string, TermPostings> {
+		const postings = new Map<string, TermPostings>();
+
+		messages.forEach((message, offset) => {
+			const counts = new Map<string, number>();
+			for (const term of [...this.tokenize(message.sender), ...this.tokenize(message.content)]) {
+				counts.set(term, (counts.get(term) ?? 0) + 1);
+			}
+
+			for (const [term, frequency] of counts) {
+				let entry = postings.get(term);
+				if (!entry) {
+					entry = { messageIndexes: [], frequencies: [] };
+					postings.set(term, entry);
+				}
+				entry.messageIndexes.push(startIndex + offset);
+				entry.frequencies.push(frequency);
+			}
+		});
+
+		return postings;
+	}
+
+	/**
+	 * Escape text and wrap every word starting with one of the normalized terms in `<mark>`
+	 */
+	static highlight(text: string, queryTerms: string[]): string {
+		let html = '';
+		let lastIndex = 0;
+
+		for (const match of text.matchAll(this.WORD_REGEX)) {
+			const start = match.index ?? 0;
+			const word = match[0];
+			const normalized = this.normalize(word);
+			if (!queryTerms.some(term => normalized.startsWith(term))) continue;
+
+			html += this.escapeHtml(text.slice(lastIndex, start)) + `<mark>${this.escapeHtml(word)}</mark>`;
+			lastIndex = start + word.length;
+		}
+
+		return html + this.escapeHtml(text.slice(lastIndex));
+	}
+
+	/**
+	 * Cut long text down to a window around the first word matching one of the terms
+	 */
+	static excerpt(text: string, queryTerms: string[], maxLength: number): string {
+		if (text.length <= maxLength) return text;
+
+		let matchStart = 0;
+		for (const match of text.matchAll(this.WORD_REGEX)) {
+			const normalized = this.normalize(match[0]);
+			if (queryTerms.some(term => normalized.startsWith(term))) {
+				matchStart = match.index ?? 0;
+				break;
+			}
+		}
+
+		// Keep roughly a third of the window before the match for context
+		const start = Math.max(0, Math.min(matchStart - Math.floor(maxLength / 3), text.length - maxLength));
+		const end = start + maxLength;
+		return (start > 0 ? '…' : '') + text.slice(start, end).trim() + (end < text.length ? '…' : '');
+	}
+
+	/**
+	 * Escape text for insertion as HTML
+	 */
+	static escapeHtml(text: string): string {
+		return text
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;')
+			.replace(/'/g, '&#39;');
+	}
+}
@@ -1,8 +1,30 @@
 import { writable, derived, get } from 'svelte/store';
-import { dbService } from './database.js';
-import type { ParsedMessage } from './parser.js';
+import {
+	dbService,
+	type StoreProgressCallback,
+	type BookmarkColor,
+	type BookmarkChanges,
+	type RestoreMode,
+	type RestoreConflictPolicy,
+	type RestoreSummary
+} from './database.js';
+import { BackupArchive } from './backup.js';
+import { ChatMerger } from './merge.js';
+import { ChatIdentity } from './identity.js';
+import type { DateFormat, ParsedMessage } from './parser.js';
+import type { MessageKind } from './kinds.js';
+import { GroupHistory, type GroupTimeline } from './group.js';
+import type { ArchiveMedia, ChatArchive } from './archive.js';
+import { ChatParseTask } from './importer.js';
+import { SearchQueryParser, type SearchQuery } from './query.js';
+import { MessagePageCache, type MessagePage } from './pages.js';
+import { CalendarMonth } from './calendar.js';
+import { EMPTY_FILTER, MessageFilterMatcher, type MessageFilter } from './filter.js';
+import { ChatExporter, type BookmarkExportEntry, type ChatExportOptions, type ExportFile } from './export.js';
 import log from './logger';
 
+export { BOOKMARK_COLORS, type BookmarkColor, type BookmarkChanges, type RestoreMode, type RestoreConflictPolicy, type RestoreSummary } from './database.js';
+
 /**
  * Chat interface for the store
  */
@@ -14,6 +36,20 @@ export interface Chat {
 	lastMessageAt: Date;
 	messageCount: number;
 	rawContent: string;
+	importStatus?: 'incomplete' | 'complete';
+	storedMessageCount?: number;
+	importFormat?: DateFormat;
+	// Participant who is the user; null for an observer, absent until chosen
+	identity?: string | null;
+}
+
+/**
+ * Stored chat that a newly parsed export continues
+ */
+export interface ChatOverlap {
+	chat: Chat;
+	// Messages of the new export that come after the last stored one
+	newMessages: ParsedMessage[];
 }
 
 /**
@@ -26,6 +62,35 @@ export interface Message {
 	sender: string;
 	content: string;
 	messageIndex: number;
+	attachment?: string;
+	kind: MessageKind;
+}
+
+/**
+ * The open chat's messages as far as they are loaded
+ *
+ * Pages are loaded around what the chat view shows and dropped again when the
+ * page cache evicts them, so huge chats never have to fit in memory.
+ */
+export interface MessageWindow {
+	chatId: string | null;
+	// Messages stored for the chat, whether loaded or not
+	total: number;
+	// Loaded pages by page number
+	pages: Map<number, MessagePage<Message>>;
+}
+
+/**
+ * Where each local day of the open chat starts, read once when the chat opens
+ *
+ * Day separators are placed from this rather than from the loaded pages, so the chat
+ * view's rows don't move as pages load.
+ */
+export interface ChatDays {
+	// Index of the first message of each day, ascending
+	starts: number[];
+	// Timestamp of that message
+	dates: Date[];
 }
 
 /**
@@ -37,8 +102,37 @@ export interface Bookmark {
 	chatId: string;
 	createdAt: Date;
 	note?: string;
+	tags?: string[];
+	color?: BookmarkColor;
+	collectionId?: string;
+	updatedAt?: Date;
+}
+
+/**
+ * Named group of bookmarks
+ */
+export interface Collection {
+	id: string;
+	name: string;
+	createdAt: Date;
 }
 
+/**
+ * Attachment media resolved to a displayable object URL
+ */
+export interface MessageMedia {
+	url: string;
+	fileName: string;
+	mimeType: string;
+	size: number;
+}
+
+/**
+ * How the chat view shows search results: only the matches, or the whole
+ * conversation stepping from match to match
+ */
+export type SearchMode = 'filter' | 'context';
+
 /**
  * Application state interface
  */
@@ -46,20 +140,38 @@ interface AppState {
 	currentChatId: string | null;
 	isLoading: boolean;
 	searchQuery: string;
+	searchMode: SearchMode;
+	// Sender, date and kind narrowing of the open chat, combined with the search query
+	messageFilter: MessageFilter;
 	showBookmarks: boolean;
+	showGlobalSearch: boolean;
+	// Message the chat view should scroll to and highlight once it's loaded
+	focusedMessageId: string | null;
 	isMobile: boolean;
 	isInitialized: boolean;
 }
 
 // Core stores
 export const chats = writable<Chat[]>([]);
-export const messages = writable<Message[]>([]);
+export const incompleteChats = writable<Chat[]>([]);
+export const messageWindow = writable<MessageWindow>({ chatId: null, total: 0, pages: new Map() });
+export const chatDays = writable<ChatDays>({ starts: [], dates: [] });
+// Positions of the open chat's messages matching the search query and filter, in chat order;
+// the messages themselves are read through the page cache as they come into view
+export const filteredMessageIndexes = writable<number[]>([]);
 export const bookmarks = writable<Bookmark[]>([]);
+export const collections = writable<Collection[]>([]);
+// Names the user goes by, used for chats without an identity of their own
+export const defaultIdentities = writable<string[]>([]);
 export const appState = writable<AppState>({
 	currentChatId: null,
 	isLoading: false,
 	searchQuery: '',
+	searchMode: 'filter',
+	messageFilter: EMPTY_FILTER,
 	showBookmarks: false,
+	showGlobalSearch: false,
+	focusedMessageId: null,
 	isMobile: false,
 	isInitialized: false
 });
@@ -76,17 +188,19 @@ export const currentChat = derived(
 	}
 );
 
-export const filteredMessages = derived(
-	[messages, appState],
-	([$messages, $appState]) => {
-		if (!$appState.searchQuery) return $messages;
-		
-		const query = $appState.searchQuery.toLowerCase();
-		return $messages.filter(message => 
-			message.content.toLowerCase().includes(query) ||
-			message.sender.toLowerCase().includes(query)
-		);
-	}
+// Parse once per query change; components read the error to show it inline
+export const parsedSearchQuery = derived(
+	appState,
+	$appState => SearchQueryParser.tryParse($appState.searchQuery)
+);
+
+/**
+ * Participant who is the user in the current chat, or null when only observing
+ */
+export const currentIdentity = derived(
+	[currentChat, defaultIdentities],
+	([$currentChat, $defaultIdentities]) =>
+		$currentChat ? ChatIdentity.resolve($currentChat, $defaultIdentities) : null
 );
 
 export const currentChatBookmarks = derived(
@@ -101,13 +215,28 @@ export const currentChatBookmarks = derived(
  * Store management service with enterprise-grade caching and optimization
  */
 class StoreService {
-	private messageCache = new Map<string, Message[]>();
 	private bookmarkCache = new Map<string, boolean>();
+	private mediaCache = new Map<string, MessageMedia | null>();
 	private loadingStates = new Set<string>();
+	private activeImports = new Set<string>();
 	private circuitBreaker = new Map<string, { failures: number; lastFailure: number }>();
 
+	private readonly DEFAULT_IDENTITIES_SETTING = 'defaultIdentities';
 	private readonly MAX_FAILURES = 3;
 	private readonly CIRCUIT_BREAKER_TIMEOUT = 30000; // 30 seconds
+	private readonly PAGE_CACHE_BUDGET_BYTES = 32 * 1024 * 1024;
+	// Pages read beyond the requested range in the direction of scrolling
+	private readonly PREFETCH_PAGES = 2;
+
+	// Declared after the budget it is created with
+	private pageCache = new MessagePageCache<Message>(
+		this.PAGE_CACHE_BUDGET_BYTES,
+		(chatId, pageNumber) => this.dropPage(chatId, pageNumber)
+	);
+	// Page reads in flight, so overlapping range requests share them
+	private pageRequests = new Map<string, Promise<MessagePage<Message>>>();
+	// Bumped per chat search so a slow, outdated search can't overwrite a newer one
+	private searchGeneration = 0;
 
 	/**
 	 * Initialize the store service and load initial data
@@ -116,6 +245,8 @@ class StoreService {
 		await dbService.init();
 		await this.loadChats();
 		await this.loadBookmarks();
+		await this.loadCollections();
+		await this.loadSettings();
 		
 		// Setup mobile detection
 		this.updateMobileState();
@@ -131,7 +262,12 @@ class StoreService {
 		try {
 			appState.update(state => ({ ...state, isLoading: true }));
 			const chatList = await dbService.getAllChats();
-			chats.set(chatList);
+			chats.set(chatList.filter(chat => chat.importStatus !== 'incomplete'));
+			
+			// Interrupted imports from earlier sessions, excluding ones still being written now
+			incompleteChats.set(chatList.filter(chat =>
+				chat.importStatus === 'incomplete' && !this.activeImports.has(chat.id)
+			));
 		} catch (error) {
 			console.error('Failed to load chats:', error);
 		} finally {
@@ -140,11 +276,11 @@ class StoreService {
 	}
 
 	/**
-	 * Load messages for a specific chat with aggressive caching
+	 * Open a chat's messages at its end, loading only the last pages
+	 *
+	 * Further pages are read as the chat view scrolls, through ensureMessages.
 	 */
 	async loadMessages(chatId: string, forceRefresh = false): Promise<void> {
-		console.log('LOAD MESSAGES: Starting for chatId:', chatId, 'forceRefresh:', forceRefresh);
-		
 		const operation = `loadMessages-${chatId}`;
 		
 		// Check circuit breaker
@@ -157,48 +293,24 @@ class StoreService {
 			console.warn(`LOAD MESSAGES: Already loading messages for chat ${chatId}, skipping duplicate request`);
 			return;
 		}
-		
-		// Check cache first
-		if (!forceRefresh && this.messageCache.has(chatId)) {
-			console.log('LOAD MESSAGES: Found cached messages, using cache');
-			const cachedMessages = this.messageCache.get(chatId)!;
-			messages.set(cachedMessages);
-			this.recordSuccess(operation);
-			return;
+
+		if (forceRefresh) {
+			this.pageCache.deleteChat(chatId);
 		}
 
 		try {
 			this.loadingStates.add(chatId);
 			appState.update(state => ({ ...state, isLoading: true }));
 			
-			console.log('LOAD MESSAGES: Loading messages from database...');
-			
-			// Add timeout to database call to prevent infinite hanging
-			const dbCallPromise = dbService.getAllMessagesForChat(chatId);
-			const timeoutPromise = new Promise<never>((_, reject) => {
-				setTimeout(() => reject(new Error('Database call timeout after 8 seconds')), 8000);
-			});
-			
-			const messageList = await Promise.race([dbCallPromise, timeoutPromise]);
-			console.log('LOAD MESSAGES: Got messages from DB, count:', messageList.length);
-			
-			// DEBUG: Log message ordering to diagnose the issue
-			if (messageList.length > 0) {
-				console.log('LOAD MESSAGES: First 5 messages order check:', messageList.slice(0, 5).map(m => `${m.messageIndex}: ${m.timestamp.toISOString()} - ${m.content.substring(0, 30)}`));
-				console.log('LOAD MESSAGES: Last 5 messages order check:', messageList.slice(-5).map(m => `${m.messageIndex}: ${m.timestamp.toISOString()} - ${m.content.substring(0, 30)}`));
-			}
-			
-			// Validate the message list
-			if (!Array.isArray(messageList)) {
-				throw new Error('Invalid message list received from database');
+			const total = await dbService.countMessages(chatId);
+			const days = await dbService.getDayStarts(chatId);
+			chatDays.set({ starts: days.map(day => day.messageIndex), dates: days.map(day => day.date) });
+			messageWindow.set({ chatId, total, pages: new Map() });
+			if (total > 0) {
+				// Two pages so a short last page still fills the screen
+				await this.ensureMessages(chatId, Math.max(0, total - MessagePageCache.PAGE_SIZE - 1), total - 1);
 			}
 			
-			// Cache the results
-			this.messageCache.set(chatId, messageList);
-			messages.set(messageList);
-			console.log('LOAD MESSAGES: Messages loaded and cached successfully');
-			
-			// Record success
 			this.recordSuccess(operation);
 			
 		} catch (error) {
@@ -207,15 +319,145 @@ class StoreService {
 			// Record failure for circuit breaker
 			this.recordFailure(operation);
 			
-			// Clear the cache entry on error
-			this.messageCache.delete(chatId);
-			// Set empty messages on error
-			messages.set([]);
+			this.pageCache.deleteChat(chatId);
+			messageWindow.set({ chatId: null, total: 0, pages: new Map() });
+			chatDays.set({ starts: [], dates: [] });
 			throw error;
 		} finally {
 			this.loadingStates.delete(chatId);
 			appState.update(state => ({ ...state, isLoading: false }));
 		}
+
+		this.refreshFilteredMessages();
+	}
+
+	/**
+	 * Make sure the open chat has a range of messages loaded, reading missing pages
+	 *
+	 * A direction of 1 (scrolling down) or -1 (scrolling up) also reads the pages
+	 * just past the range on that side, so they are ready when the user gets there.
+	 */
+	async ensureMessages(chatId: string, from: number, to: number, direction: -1 | 0 | 1 = 0): Promise<void> {
+		const total = get(messageWindow).total;
+		if (get(messageWindow).chatId !== chatId || total === 0) return;
+
+		const lastPage = MessagePageCache.pageOf(total - 1);
+		let firstNeeded = MessagePageCache.pageOf(Math.max(0, from));
+		let lastNeeded = MessagePageCache.pageOf(Math.min(total - 1, to));
+		if (direction < 0) firstNeeded -= this.PREFETCH_PAGES;
+		if (direction > 0) lastNeeded += this.PREFETCH_PAGES;
+
+		const pageNumbers: number[] = [];
+		for (let pageNumber = Math.max(0, firstNeeded); pageNumber <= Math.min(lastPage, lastNeeded); pageNumber++) {
+			pageNumbers.push(pageNumber);
+		}
+		await this.loadPages(chatId, pageNumbers);
+	}
+
+	/**
+	 * Make sure the open chat has the pages holding some messages loaded, such as the search matches in view
+	 */
+	async ensureMessageIndexes(chatId: string, messageIndexes: number[]): Promise<void> {
+		if (get(messageWindow).chatId !== chatId) return;
+
+		const pageNumbers = new Set(messageIndexes.map(messageIndex => MessagePageCache.pageOf(messageIndex)));
+		await this.loadPages(chatId, [...pageNumbers]);
+	}
+
+	/**
+	 * Read pages of the open chat that aren't loaded and add them to the message window
+	 */
+	private async loadPages(chatId: string, pageNumbers: number[]): Promise<void> {
+		const pages = await Promise.all(pageNumbers.map(pageNumber => this.getPage(chatId, pageNumber)));
+
+		// The chat may have been closed while the pages were read
+		const current = get(messageWindow);
+		if (current.chatId !== chatId) return;
+
+		const added = pages.filter(page => current.pages.get(page.number) !== page);
+		if (added.length === 0) return;
+
+		messageWindow.update(window => {
+			const loaded = new Map(window.pages);
+			for (const page of added) {
+				loaded.set(page.number, page);
+			}
+			return { ...window, pages: loaded };
+		});
+	}
+
+	/**
+	 * Get one page of a chat from the cache, or read it through the chat's index
+	 */
+	private async getPage(chatId: string, pageNumber: number): Promise<MessagePage<Message>> {
+		const cached = this.pageCache.get(chatId, pageNumber);
+		if (cached) return cached;
+
+		const key = `${chatId}:${pageNumber}`;
+		let request = this.pageRequests.get(key);
+		if (!request) {
+			request = this.readPage(chatId, pageNumber).finally(() => this.pageRequests.delete(key));
+			this.pageRequests.set(key, request);
+		}
+		return request;
+	}
+
+	/**
+	 * Read a page through the chat's index
+	 */
+	private async readPage(chatId: string, pageNumber: number): Promise<MessagePage<Message>> {
+		const messages = await dbService.getMessages(chatId, MessagePageCache.PAGE_SIZE, MessagePageCache.startOf(pageNumber));
+
+		const page: MessagePage<Message> = { number: pageNumber, messages };
+		this.pageCache.set(chatId, page);
+		return page;
+	}
+
+	/**
+	 * Unload a page the cache evicted from the open chat; the view reads it again if needed
+	 */
+	private dropPage(chatId: string, pageNumber: number): void {
+		const current = get(messageWindow);
+		if (current.chatId !== chatId || !current.pages.has(pageNumber)) return;
+
+		messageWindow.update(window => {
+			const loaded = new Map(window.pages);
+			loaded.delete(pageNumber);
+			return { ...window, pages: loaded };
+		});
+	}
+
+	/**
+	 * Narrow the open chat by the search query and the message filter, keeping results in chat order
+	 *
+	 * Callers don't wait for the search, so it never rejects: a failed search is logged and matches nothing.
+	 */
+	private async refreshFilteredMessages(): Promise<void> {
+		const generation = ++this.searchGeneration;
+		const { currentChatId, searchQuery, messageFilter } = get(appState);
+		const filtering = MessageFilterMatcher.isActive(messageFilter);
+
+		// An invalid query matches nothing; the search bar shows why
+		const query = get(parsedSearchQuery).query;
+		if (!currentChatId || (!searchQuery && !filtering) || (searchQuery && !query)) {
+			filteredMessageIndexes.set([]);
+			return;
+		}
+
+		try {
+			const results = await dbService.findMatchingIndexes(
+				currentChatId,
+				searchQuery ? query : null,
+				messageFilter,
+				() => generation === this.searchGeneration
+			);
+			if (generation !== this.searchGeneration) return;
+
+			filteredMessageIndexes.set(results);
+		} catch (error) {
+			log.error('Failed to search the open chat:', error);
+			if (generation === this.searchGeneration) filteredMessageIndexes.set([]);
+		}
 	}
 
 	/**
@@ -266,7 +508,8 @@ class StoreService {
 			
 			console.log('SWITCH TO CHAT: Updating appState...');
 			// Update state first - now safe with fixed reactive statements
-			appState.update(state => ({ ...state, currentChatId: chatId }));
+			// Filters name the previous chat's senders, so each chat starts unfiltered
+			appState.update(state => ({ ...state, currentChatId: chatId, messageFilter: EMPTY_FILTER }));
 			console.log('SWITCH TO CHAT: AppState updated, about to load messages');
 			
 			// Load messages after state update
@@ -293,18 +536,23 @@ class StoreService {
 		name: string,
 		participants: string[],
 		parsedMessages: ParsedMessage[],
-		rawContent: string
+		rawContent: string,
+		media?: Map<string, ArchiveMedia>,
+		format?: DateFormat,
+		identity?: string | null,
+		onProgress?: StoreProgressCallback
 	): Promise<string> {
+		const chatId = `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+		
 		try {
 			console.log('ADD CHAT: Starting addChat process');
 			appState.update(state => ({ ...state, isLoading: true }));
-			
-			const chatId = `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+			this.activeImports.add(chatId);
 			console.log('ADD CHAT: Generated chatId:', chatId);
 			
 			console.log('ADD CHAT: About to call dbService.storeChat');
-			// Store the chat in database
-			await dbService.storeChat(chatId, name, participants, parsedMessages, rawContent);
+			// Store the chat in database in chunks, reporting each committed chunk
+			await dbService.storeChat(chatId, name, participants, parsedMessages, rawContent, media, format, identity, onProgress);
 			console.log('ADD CHAT: dbService.storeChat completed');
 			
 			console.log('ADD CHAT: About to call loadChats');
@@ -319,10 +567,94 @@ class StoreService {
 			throw error;
 		} finally {
 			console.log('ADD CHAT: Setting isLoading to false');
+			this.activeImports.delete(chatId);
 			appState.update(state => ({ ...state, isLoading: false }));
 		}
 	}
 
+	/**
+	 * Find a stored chat that a parsed export continues, matched on participants and on
+	 * the stored chat's last messages appearing in the export
+	 */
+	async findOverlappingChat(participants: string[], parsedMessages: ParsedMessage[]): Promise<ChatOverlap | null> {
+		for (const chat of get(chats)) {
+			if (!ChatMerger.sharesParticipants(chat.participants, participants)) continue;
+
+			const tail = await dbService.getLastMessages(chat.id, ChatMerger.ANCHOR_SIZE);
+			const anchor = ChatMerger.findAnchor(tail, parsedMessages);
+			if (anchor !== -1) {
+				return { chat, newMessages: parsedMessages.slice(anchor + 1) };
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Add the new messages of a newer export to the chat it continues
+	 */
+	async mergeIntoChat(
+		overlap: ChatOverlap,
+		participants: string[],
+		rawContent: string,
+		media?: Map<string, ArchiveMedia>,
+		onProgress?: StoreProgressCallback
+	): Promise<void> {
+		const chatId = overlap.chat.id;
+
+		try {
+			appState.update(state => ({ ...state, isLoading: true }));
+			await dbService.appendMessages(chatId, overlap.newMessages, rawContent, participants, media, onProgress);
+
+			this.pageCache.deleteChat(chatId);
+			await this.loadChats();
+			if (get(appState).currentChatId === chatId) {
+				await this.loadMessages(chatId, true);
+			}
+		} finally {
+			appState.update(state => ({ ...state, isLoading: false }));
+		}
+	}
+
+	/**
+	 * Finish an interrupted import by re-parsing its stored raw content
+	 *
+	 * Attachments aren't kept between sessions, so resumed chunks only get media when the
+	 * original archive is picked again.
+	 */
+	async resumeImport(chatId: string, archive?: ChatArchive, onProgress?: StoreProgressCallback): Promise<void> {
+		const chat = get(incompleteChats).find(c => c.id === chatId);
+		if (!chat) throw new Error('No interrupted import found for this chat');
+		if (archive && archive.chatText !== chat.rawContent) {
+			throw new Error('This archive is not the export the interrupted import started from');
+		}
+		
+		try {
+			this.activeImports.add(chatId);
+			incompleteChats.update(list => list.filter(c => c.id !== chatId));
+			
+			const task = new ChatParseTask(
+				new Blob([chat.rawContent], { type: 'text/plain' }),
+				{
+					onAmbiguousFormat: () => Promise.reject(new Error('The date order of this import was not recorded'))
+				},
+				chat.importFormat
+			);
+			const { messages: parsedMessages } = await task.run();
+			
+			await dbService.resumeChat(chatId, parsedMessages, archive?.media, onProgress);
+		} finally {
+			this.activeImports.delete(chatId);
+			await this.loadChats();
+		}
+	}
+
+	/**
+	 * Discard an interrupted import and everything it already stored
+	 */
+	async discardImport(chatId: string): Promise<void> {
+		await this.deleteChat(chatId);
+	}
+
 	/**
 	 * Delete a chat
 	 */
@@ -333,14 +665,16 @@ class StoreService {
 			await dbService.deleteChat(chatId);
 			
 			// Clear caches
-			this.messageCache.delete(chatId);
+			this.pageCache.deleteChat(chatId);
+			this.releaseMedia(chatId);
 			this.bookmarkCache.clear(); // Clear all bookmark cache since bookmarks for this chat are deleted
 			
 			// If we're currently viewing this chat, clear current selection
 			const currentState = get(appState);
 			if (currentState.currentChatId === chatId) {
 				appState.update(state => ({ ...state, currentChatId: null }));
-				messages.set([]);
+				messageWindow.set({ chatId: null, total: 0, pages: new Map() });
+				chatDays.set({ starts: [], dates: [] });
 			}
 			
 			// Refresh data
@@ -355,6 +689,134 @@ class StoreService {
 		}
 	}
 
+	/**
+	 * Load all bookmark collections
+	 */
+	async loadCollections(): Promise<void> {
+		try {
+			collections.set(await dbService.getAllCollections());
+		} catch (error) {
+			console.error('Failed to load collections:', error);
+		}
+	}
+
+	/**
+	 * Load app-wide settings
+	 */
+	async loadSettings(): Promise<void> {
+		try {
+			defaultIdentities.set(await dbService.getSetting<string[]>(this.DEFAULT_IDENTITIES_SETTING) ?? []);
+		} catch (error) {
+			console.error('Failed to load settings:', error);
+		}
+	}
+
+	/**
+	 * Set who the user is in a chat, or null to view it as an observer
+	 */
+	async setChatIdentity(chatId: string, identity: string | null): Promise<void> {
+		try {
+			await dbService.setChatIdentity(chatId, identity);
+			chats.update(list => list.map(chat => chat.id === chatId ? { ...chat, identity } : chat));
+		} catch (error) {
+			console.error('Failed to set chat identity:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Add or remove a name from the ones used for chats without an identity of their own
+	 */
+	async setDefaultIdentity(name: string, isDefault: boolean): Promise<void> {
+		const names = get(defaultIdentities).filter(existing => existing !== name);
+		if (isDefault) names.push(name);
+
+		try {
+			await dbService.setSetting(this.DEFAULT_IDENTITIES_SETTING, names);
+			defaultIdentities.set(names);
+		} catch (error) {
+			console.error('Failed to save default identity:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Who the user is in a chat, from its own choice or the default names
+	 */
+	getIdentity(chat: Chat): string | null {
+		return ChatIdentity.resolve(chat, get(defaultIdentities));
+	}
+
+	/**
+	 * Edit a bookmark's note, tags, colour or collection
+	 */
+	async updateBookmark(bookmarkId: string, changes: BookmarkChanges): Promise<void> {
+		try {
+			// Tags are case-insensitive labels; keep one spelling of each
+			const tags = changes.tags && [...new Set(changes.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+			await dbService.updateBookmark(bookmarkId, { ...changes, tags });
+			await this.loadBookmarks();
+		} catch (error) {
+			console.error('Failed to update bookmark:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Create a bookmark collection
+	 */
+	async createCollection(name: string): Promise<string> {
+		const trimmed = name.trim();
+		if (!trimmed) throw new Error('Collection name cannot be empty');
+		if (get(collections).some(collection => collection.name.toLowerCase() === trimmed.toLowerCase())) {
+			throw new Error(`A collection named "${trimmed}" already exists`);
+		}
+
+		try {
+			const collectionId = await dbService.addCollection(trimmed);
+			await this.loadCollections();
+			return collectionId;
+		} catch (error) {
+			console.error('Failed to create collection:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Rename a bookmark collection
+	 */
+	async renameCollection(collectionId: string, name: string): Promise<void> {
+		const trimmed = name.trim();
+		if (!trimmed) throw new Error('Collection name cannot be empty');
+		const taken = get(collections).some(collection =>
+			collection.id !== collectionId && collection.name.toLowerCase() === trimmed.toLowerCase()
+		);
+		if (taken) {
+			throw new Error(`A collection named "${trimmed}" already exists`);
+		}
+
+		try {
+			await dbService.renameCollection(collectionId, trimmed);
+			await this.loadCollections();
+		} catch (error) {
+			console.error('Failed to rename collection:', error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Delete a bookmark collection, keeping its bookmarks
+	 */
+	async deleteCollection(collectionId: string): Promise<void> {
+		try {
+			await dbService.deleteCollection(collectionId);
+			await Promise.all([this.loadCollections(), this.loadBookmarks()]);
+		} catch (error) {
+			console.error('Failed to delete collection:', error);
+			throw error;
+		}
+	}
+
 	/**
 	 * Toggle bookmark for a message
 	 */
@@ -395,11 +857,46 @@ class StoreService {
 	}
 
 	/**
-	 * Search messages across all chats or current chat
+	 * Get the attachment stored for a message as an object URL, or null when the export omitted it
 	 */
-	async searchMessages(query: string, chatId?: string): Promise<Message[]> {
+	async getMessageMedia(messageId: string): Promise<MessageMedia | null> {
+		if (this.mediaCache.has(messageId)) {
+			return this.mediaCache.get(messageId)!;
+		}
+		
+		const record = await dbService.getMediaForMessage(messageId);
+		const media = record ? {
+			url: URL.createObjectURL(record.blob),
+			fileName: record.fileName,
+			mimeType: record.mimeType,
+			size: record.size
+		} : null;
+		
+		this.mediaCache.set(messageId, media);
+		return media;
+	}
+
+	/**
+	 * Revoke cached media object URLs, for one chat or all of them
+	 */
+	private releaseMedia(chatId?: string): void {
+		for (const [messageId, media] of this.mediaCache) {
+			if (chatId && !messageId.startsWith(`${chatId}-`)) continue;
+			if (media) URL.revokeObjectURL(media.url);
+			this.mediaCache.delete(messageId);
+		}
+	}
+
+	/**
+	 * Search messages across all chats or current chat, best matches first
+	 *
+	 * Query text is parsed first; invalid syntax throws a SearchQueryError for the caller to show.
+	 */
+	async searchMessages(query: string | SearchQuery, chatId?: string): Promise<Message[]> {
+		const parsed = typeof query === 'string' ? SearchQueryParser.parse(query) : query;
+
 		try {
-			return await dbService.searchMessages(query, chatId);
+			return await dbService.searchMessages(parsed, chatId);
 		} catch (error) {
 			console.error('Failed to search messages:', error);
 			return [];
@@ -411,13 +908,138 @@ class StoreService {
 	 */
 	setSearchQuery(query: string): void {
 		appState.update(state => ({ ...state, searchQuery: query }));
+		this.refreshFilteredMessages();
+	}
+
+	/**
+	 * Narrow the open chat's timeline by sender, date and kind of message
+	 */
+	setMessageFilter(filter: MessageFilter): void {
+		appState.update(state => ({ ...state, messageFilter: filter }));
+		this.refreshFilteredMessages();
+	}
+
+	/**
+	 * Switch between listing only the matches and showing them within the conversation
+	 */
+	setSearchMode(mode: SearchMode): void {
+		appState.update(state => ({ ...state, searchMode: mode }));
+	}
+
+	/**
+	 * Get a window of messages around one message, for showing search hits in context
+	 */
+	async getMessageContext(chatId: string, messageIndex: number, radius: number): Promise<Message[]> {
+		const offset = Math.max(0, messageIndex - radius);
+
+		try {
+			return await dbService.getMessages(chatId, messageIndex - offset + radius + 1, offset);
+		} catch (error) {
+			console.error('Failed to load message context:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Resolve bookmarks to their messages and context for exporting, ordered by chat and position
+	 */
+	async getBookmarkExportEntries(bookmarkList: Bookmark[], contextSize: number): Promise<BookmarkExportEntry[]> {
+		const chatList = get(chats);
+		const collectionList = get(collections);
+		const entries: BookmarkExportEntry[] = [];
+
+		for (const bookmark of bookmarkList) {
+			const message = await this.getMessageById(bookmark.messageId);
+			const context = message && contextSize > 0
+				? await this.getMessageContext(bookmark.chatId, message.messageIndex, contextSize)
+				: [];
+
+			entries.push({
+				bookmark,
+				chatName: chatList.find(chat => chat.id === bookmark.chatId)?.name ?? 'Unknown Chat',
+				collectionName: collectionList.find(collection => collection.id === bookmark.collectionId)?.name ?? null,
+				message,
+				before: message ? context.filter(m => m.messageIndex < message.messageIndex) : [],
+				after: message ? context.filter(m => m.messageIndex > message.messageIndex) : []
+			});
+		}
+
+		return entries.sort((a, b) =>
+			a.chatName.localeCompare(b.chatName) ||
+			a.bookmark.chatId.localeCompare(b.bookmark.chatId) ||
+			(a.message?.messageIndex ?? Number.MAX_SAFE_INTEGER) - (b.message?.messageIndex ?? Number.MAX_SAFE_INTEGER)
+		);
 	}
 
 	/**
 	 * Toggle bookmarks view
 	 */
 	toggleBookmarksView(): void {
-		appState.update(state => ({ ...state, showBookmarks: !state.showBookmarks }));
+		appState.update(state => ({
+			...state,
+			showBookmarks: !state.showBookmarks,
+			showGlobalSearch: state.showBookmarks ? state.showGlobalSearch : false
+		}));
+	}
+
+	/**
+	 * Toggle the cross-chat search panel; it shares the side panel slot with bookmarks
+	 */
+	toggleGlobalSearchView(): void {
+		appState.update(state => ({
+			...state,
+			showGlobalSearch: !state.showGlobalSearch,
+			showBookmarks: state.showGlobalSearch ? state.showBookmarks : false
+		}));
+	}
+
+	/**
+	 * Open a chat and ask the chat view to scroll to and highlight one of its messages
+	 */
+	async focusMessage(chatId: string, messageId: string): Promise<void> {
+		if (get(appState).currentChatId !== chatId) {
+			await this.switchToChat(chatId);
+		}
+
+		// A per-chat search or filter could hide the message, so show the full conversation
+		appState.update(state => ({ ...state, searchQuery: '', messageFilter: EMPTY_FILTER, focusedMessageId: messageId }));
+		this.refreshFilteredMessages();
+	}
+
+	/**
+	 * Dates of a chat's first and last messages, or null for an empty chat
+	 */
+	async getMessageDateRange(chatId: string): Promise<{ first: Date; last: Date } | null> {
+		const [first] = await dbService.getMessages(chatId, 1, 0);
+		const [last] = await dbService.getLastMessages(chatId, 1);
+		return first && last ? { first: first.timestamp, last: last.timestamp } : null;
+	}
+
+	/**
+	 * Number of messages on each day of a month, keyed by local YYYY-MM-DD
+	 */
+	async getDayCounts(chatId: string, year: number, month: number): Promise<Map<string, number>> {
+		const { from, to } = CalendarMonth.range(year, month);
+		return dbService.countMessagesByDay(chatId, from, to);
+	}
+
+	/**
+	 * Scroll the chat view to the first message of a day; false when the day has none
+	 */
+	async jumpToDate(chatId: string, date: Date): Promise<boolean> {
+		const { from, to } = CalendarMonth.dayRange(date);
+		const messageIndex = await dbService.findFirstMessageIndex(chatId, from, to);
+		if (messageIndex === null) return false;
+
+		await this.focusMessage(chatId, `${chatId}-${messageIndex}`);
+		return true;
+	}
+
+	/**
+	 * Mark the focused message as handled by the chat view
+	 */
+	clearFocusedMessage(): void {
+		appState.update(state => ({ ...state, focusedMessageId: null }));
 	}
 
 	/**
@@ -425,36 +1047,39 @@ class StoreService {
 	 */
 	clearCurrentChat(): void {
 		appState.update(state => ({ ...state, currentChatId: null }));
-		messages.set([]);
+		messageWindow.set({ chatId: null, total: 0, pages: new Map() });
+		chatDays.set({ starts: [], dates: [] });
+		this.refreshFilteredMessages();
 	}
 
 	/**
-	 * Get message by ID for bookmark navigation
+	 * Get message by ID, from the loaded chat when possible and otherwise from the database
 	 */
 	async getMessageById(messageId: string): Promise<Message | null> {
-		const currentMessages = get(messages);
-		const message = currentMessages.find(m => m.id === messageId);
-		
-		if (message) {
-			return message;
+		// Message IDs are the chat ID and the message index
+		const { chatId, pages } = get(messageWindow);
+		if (chatId && messageId.startsWith(`${chatId}-`)) {
+			const messageIndex = Number(messageId.slice(chatId.length + 1));
+			const page = pages.get(MessagePageCache.pageOf(messageIndex));
+			const message = page?.messages[messageIndex - MessagePageCache.startOf(page.number)];
+			if (message?.id === messageId) {
+				return message;
+			}
 		}
 		
-		// If not in current view, we might need to load the chat
-		// This is a simplified implementation - in a real app you'd want more sophisticated handling
-		return null;
+		try {
+			return await dbService.getMessage(messageId) ?? null;
+		} catch (error) {
+			console.error('Failed to load message:', error);
+			return null;
+		}
 	}
 
 	/**
-	 * Navigate to a bookmarked message
+	 * Navigate to a bookmarked message, opening its chat and scrolling to it
 	 */
 	async navigateToBookmark(bookmark: Bookmark): Promise<void> {
-		// Switch to the chat containing the bookmark
-		if (get(appState).currentChatId !== bookmark.chatId) {
-			await this.switchToChat(bookmark.chatId);
-		}
-		
-		// The UI component will handle scrolling to the specific message
-		// We could emit a custom event or use a reactive store for this
+		await this.focusMessage(bookmark.chatId, bookmark.messageId);
 	}
 
 	/**
@@ -466,46 +1091,70 @@ class StoreService {
 	}
 
 	/**
-	 * Export chat data
+	 * Export a chat's stored messages, filtered and formatted as requested
 	 */
-	async exportChat(chatId: string): Promise<string> {
+	async exportChat(chatId: string, options: ChatExportOptions): Promise<ExportFile> {
 		const chat = await dbService.getChat(chatId);
 		if (!chat) throw new Error('Chat not found');
-		
-		return chat.rawContent;
+
+		const [messageList, bookmarkList] = await Promise.all([
+			dbService.getAllMessagesForChat(chatId),
+			options.includeBookmarks ? dbService.getBookmarksForChat(chatId) : Promise.resolve([])
+		]);
+
+		return ChatExporter.export({ ...chat, identity: this.getIdentity(chat) }, messageList, bookmarkList, options);
 	}
 
 	/**
-	 * Get chat statistics
+	 * Membership and subject history of a chat, from its system messages
 	 */
-	async getChatStats(chatId: string): Promise<{
-		messageCount: number;
-		participantStats: { [sender: string]: number };
-		dateRange: { start: Date; end: Date };
-		averageMessagesPerDay: number;
-	}> {
-		const messageList = await dbService.getAllMessagesForChat(chatId);
-		
-		const participantStats: { [sender: string]: number } = {};
-		let startDate = new Date();
-		let endDate = new Date(0);
-		
-		for (const message of messageList) {
-			participantStats[message.sender] = (participantStats[message.sender] || 0) + 1;
-			
-			if (message.timestamp < startDate) startDate = message.timestamp;
-			if (message.timestamp > endDate) endDate = message.timestamp;
+	async getGroupTimeline(chat: Chat): Promise<GroupTimeline> {
+		const history = new GroupHistory();
+		for (const message of await dbService.getSystemMessages(chat.id)) {
+			history.add(message);
+		}
+		return history.finish(chat.participants);
+	}
+
+	/**
+	 * Pack the whole database into a single backup file
+	 */
+	async createBackup(): Promise<Blob> {
+		const snapshot = await dbService.exportSnapshot();
+		return BackupArchive.create(snapshot);
+	}
+
+	/**
+	 * Restore a backup file, replacing or merging with what is stored
+	 *
+	 * Invalid or incompatible files throw a BackupError before anything is written.
+	 */
+	async restoreBackup(
+		file: File,
+		mode: RestoreMode,
+		conflicts: RestoreConflictPolicy,
+		onProgress?: StoreProgressCallback
+	): Promise<RestoreSummary> {
+		const backup = await BackupArchive.read(file);
+
+		try {
+			appState.update(state => ({ ...state, isLoading: true }));
+			const summary = await dbService.restoreSnapshot(backup.snapshot, mode, conflicts, onProgress);
+
+			// Restored chats may replace the one on screen, so start from a clean slate
+			this.clearCurrentChat();
+			this.pageCache.clear();
+			this.bookmarkCache.clear();
+			this.releaseMedia();
+
+			await this.loadChats();
+			await this.loadBookmarks();
+			await this.loadCollections();
+			await this.loadSettings();
+			return summary;
+		} finally {
+			appState.update(state => ({ ...state, isLoading: false }));
 		}
-		
-		const daysDiff = Math.max(1, (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-		const averageMessagesPerDay = messageList.length / daysDiff;
-		
-		return {
-			messageCount: messageList.length,
-			participantStats,
-			dateRange: { start: startDate, end: endDate },
-			averageMessagesPerDay
-		};
 	}
 
 	/**
@@ -555,8 +1204,9 @@ class StoreService {
 		console.log('EMERGENCY RESET: Resetting all state and caches');
 		
 		// Clear all caches
-		this.messageCache.clear();
+		this.pageCache.clear();
 		this.bookmarkCache.clear();
+		this.releaseMedia();
 		this.loadingStates.clear();
 		this.circuitBreaker.clear();
 		
@@ -565,12 +1215,18 @@ class StoreService {
 			currentChatId: null,
 			isLoading: false,
 			searchQuery: '',
+			searchMode: 'filter',
+			messageFilter: EMPTY_FILTER,
 			showBookmarks: false,
+			showGlobalSearch: false,
+			focusedMessageId: null,
 			isMobile: window.innerWidth < 768,
 			isInitialized: true
 		});
 		
-		messages.set([]);
+		messageWindow.set({ chatId: null, total: 0, pages: new Map() });
+		chatDays.set({ starts: [], dates: [] });
+		filteredMessageIndexes.set([]);
 		
 		console.log('EMERGENCY RESET: Reset completed');
 	}
@@ -580,12 +1236,13 @@ class StoreService {
 	 */
 	getDebugInfo(): object {
 		return {
-			messageCache: Array.from(this.messageCache.keys()),
+			cachedPages: this.pageCache.describe(),
+			cachedBytes: this.pageCache.usedBytes,
 			loadingStates: Array.from(this.loadingStates),
 			circuitBreaker: Array.from(this.circuitBreaker.entries()),
 			appState: get(appState),
 			chatCount: get(chats).length,
-			messageCount: get(messages).length,
+			messageCount: get(messageWindow).total,
 			bookmarkCount: get(bookmarks).length
 		};
 	}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { HeightIndex, SectionRows } from './virtual';
+
+describe('HeightIndex', () => {
+	it('sums heights up to an item', () => {
+		const index = new HeightIndex([10, 20, 30, 40, 50]);
+		expect(index.count).toBe(5);
+		expect(index.total).toBe(150);
+		expect(index.offsetOf(0)).toBe(0);
+		expect(index.offsetOf(3)).toBe(60);
+	});
+
+	it('finds the item covering an offset, clamped to the list', () => {
+		const index = new HeightIndex([10, 20, 30, 40, 50]);
+		expect(index.indexAt(0)).toBe(0);
+		expect(index.indexAt(29.5)).toBe(1);
+		expect(index.indexAt(30)).toBe(2);
+		expect(index.indexAt(10_000)).toBe(4);
+		expect(new HeightIndex([]).indexAt(100)).toBe(0);
+	});
+
+	it('updates the totals when one height changes', () => {
+		const index = new HeightIndex([10, 20, 30, 40, 50]);
+		index.set(1, 120);
+		expect(index.get(1)).toBe(120);
+		expect(index.total).toBe(250);
+		expect(index.offsetOf(4)).toBe(200);
+		expect(index.indexAt(130)).toBe(2);
+	});
+
+	it('appends items as if the list had been built with them', () => {
+		const heights = Array.from({ length: 37 }, (_, i) => 10 + (i % 7) * 5);
+		const built = new HeightIndex(heights);
+		const appended = new HeightIndex(heights.slice(0, 3));
+		heights.slice(3).forEach(height => appended.push(height));
+
+		expect(appended.count).toBe(37);
+		expect(appended.total).toBe(built.total);
+		for (let i = 0; i <= 37; i++) {
+			expect(appended.offsetOf(i)).toBe(built.offsetOf(i));
+		}
+		for (let offset = 0; offset < built.total; offset += 13) {
+			expect(appended.indexAt(offset)).toBe(built.indexAt(offset));
+		}
+	});
+
+	it('keeps working after an append grows its storage', () => {
+		const index = new HeightIndex([]);
+		for (let i = 0; i < 100; i++) index.push(10);
+		index.set(50, 60);
+		expect(index.total).toBe(1050);
+		expect(index.indexAt(555)).toBe(50);
+		expect(index.indexAt(561)).toBe(51);
+	});
+});
+
+describe('SectionRows', () => {
+	// Items 0-2, 3 and 4-6 in three sections
+	const rows = new SectionRows([0, 3, 4], 7);
+
+	it('adds a header row before each section', () => {
+		expect(rows.count).toBe(10);
+		expect([...Array(rows.count).keys()].map(row => rows.at(row))).toEqual([
+			{ type: 'header', section: 0 },
+			{ type: 'item', section: 0, item: 0 },
+			{ type: 'item', section: 0, item: 1 },
+			{ type: 'item', section: 0, item: 2 },
+			{ type: 'header', section: 1 },
+			{ type: 'item', section: 1, item: 3 },
+			{ type: 'header', section: 2 },
+			{ type: 'item', section: 2, item: 4 },
+			{ type: 'item', section: 2, item: 5 },
+			{ type: 'item', section: 2, item: 6 }
+		]);
+	});
+
+	it('maps items to their rows and back', () => {
+		for (let item = 0; item < 7; item++) {
+			expect(rows.at(rows.rowOf(item))).toMatchObject({ type: 'item', item });
+		}
+		expect(rows.sectionOf(3)).toBe(1);
+		expect(rows.itemAt(4)).toBe(3);
+	});
+
+	it('leaves items before the first section without a header', () => {
+		const late = new SectionRows([2], 4);
+		expect(late.count).toBe(5);
+		expect(late.at(1)).toEqual({ type: 'item', section: -1, item: 1 });
+		expect(late.at(2)).toEqual({ type: 'header', section: 0 });
+		expect(late.rowOf(3)).toBe(4);
+	});
+});
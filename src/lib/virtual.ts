@@ -0,0 +1,204 @@
+/**
+ * Running totals of item heights for a virtual list
+ *
+ * A Fenwick tree, so changing one height, adding an item and finding the item at a
+ * scroll offset are all O(log n); a 200k-message chat needs about 18 steps per lookup.
+ */
+export class HeightIndex {
+	// Room reserved beyond the last item, doubled whenever appending runs out of it
+	private heights: Float64Array;
+	private tree: Float64Array;
+	private size: number;
+	// Highest power of two not above the count, where offset searches start
+	private topBit: number;
+
+	constructor(heights: ArrayLike<number>) {
+		const count = heights.length;
+		this.size = count;
+		this.heights = Float64Array.from(heights);
+		this.tree = new Float64Array(count + 1);
+
+		for (let i = 1; i <= count; i++) {
+			this.tree[i] += this.heights[i - 1];
+			const parent = i + (i & -i);
+			if (parent <= count) this.tree[parent] += this.tree[i];
+		}
+
+		let bit = 1;
+		while (bit * 2 <= count) bit *= 2;
+		this.topBit = count > 0 ? bit : 0;
+	}
+
+	/**
+	 * Number of items
+	 */
+	get count(): number {
+		return this.size;
+	}
+
+	/**
+	 * Height of every item together
+	 */
+	get total(): number {
+		return this.offsetOf(this.count);
+	}
+
+	/**
+	 * Height of one item
+	 */
+	get(index: number): number {
+		return this.heights[index];
+	}
+
+	/**
+	 * Change the height of one item
+	 */
+	set(index: number, height: number): void {
+		const delta = height - this.heights[index];
+		if (delta === 0) return;
+
+		this.heights[index] = height;
+		for (let i = index + 1; i <= this.count; i += i & -i) {
+			this.tree[i] += delta;
+		}
+	}
+
+	/**
+	 * Add an item after the last one
+	 */
+	push(height: number): void {
+		if (this.size === this.heights.length) this.grow();
+
+		const position = ++this.size;
+		this.heights[position - 1] = height;
+		// A node covers the items since its lowest set bit; all of them but the new one are already summed
+		this.tree[position] = height + this.offsetOf(position - 1) - this.offsetOf(position - (position & -position));
+		if (this.topBit * 2 <= this.size) this.topBit = Math.max(1, this.topBit * 2);
+	}
+
+	/**
+	 * Distance from the top of the list to the top of an item
+	 */
+	offsetOf(index: number): number {
+		let sum = 0;
+		for (let i = Math.min(index, this.count); i > 0; i -= i & -i) {
+			sum += this.tree[i];
+		}
+		return sum;
+	}
+
+	/**
+	 * Index of the item covering an offset, clamped to the list
+	 */
+	indexAt(offset: number): number {
+		if (this.count === 0) return 0;
+
+		let position = 0;
+		let remaining = offset;
+		for (let bit = this.topBit; bit > 0; bit >>= 1) {
+			const next = position + bit;
+			if (next <= this.count && this.tree[next] <= remaining) {
+				position = next;
+				remaining -= this.tree[next];
+			}
+		}
+		return Math.min(position, this.count - 1);
+	}
+
+	/**
+	 * Double the room for items
+	 */
+	private grow(): void {
+		const capacity = Math.max(16, this.heights.length * 2);
+		const heights = new Float64Array(capacity);
+		const tree = new Float64Array(capacity + 1);
+		heights.set(this.heights);
+		tree.set(this.tree);
+		this.heights = heights;
+		this.tree = tree;
+	}
+}
+
+/**
+ * Row of a sectioned list: the header that opens a section, or one of its items
+ */
+export type SectionRow =
+	| { type: 'header'; section: number }
+	| { type: 'item'; section: number; item: number };
+
+/**
+ * Rows of a list whose items are split into sections, each opened by a header row
+ *
+ * Only the first item of each section is stored, so mapping between items and rows is a
+ * binary search; a list's rows never have to be built to find one of them.
+ */
+export class SectionRows {
+	// First item of each section, ascending
+	private readonly starts: number[];
+	private readonly itemCount: number;
+
+	constructor(starts: number[], itemCount: number) {
+		this.starts = starts;
+		this.itemCount = itemCount;
+	}
+
+	/**
+	 * Number of rows, headers included
+	 */
+	get count(): number {
+		return this.itemCount + this.starts.length;
+	}
+
+	/**
+	 * Section an item belongs to, or -1 for items before the first section
+	 */
+	sectionOf(item: number): number {
+		let low = 0;
+		let high = this.starts.length - 1;
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+			if (this.starts[middle] <= item) low = middle + 1;
+			else high = middle - 1;
+		}
+		return high;
+	}
+
+	/**
+	 * Row an item is shown in
+	 */
+	rowOf(item: number): number {
+		return item + this.sectionOf(item) + 1;
+	}
+
+	/**
+	 * Row of a section's header
+	 */
+	private headerRowOf(section: number): number {
+		return this.starts[section] + section;
+	}
+
+	/**
+	 * What a row shows
+	 */
+	at(row: number): SectionRow {
+		// Header rows ascend too, so find the last one at or above the row
+		let low = 0;
+		let high = this.starts.length - 1;
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+			if (this.headerRowOf(middle) <= row) low = middle + 1;
+			else high = middle - 1;
+		}
+
+		if (high >= 0 && this.headerRowOf(high) === row) return { type: 'header', section: high };
+		return { type: 'item', section: high, item: row - high - 1 };
+	}
+
+	/**
+	 * Item shown in a row, or the first item of the section for a header
+	 */
+	itemAt(row: number): number {
+		const entry = this.at(row);
+		return entry.type === 'item' ? entry.item : this.starts[entry.section];
+	}
+}
@@ -3,6 +3,9 @@ import { defineConfig } from 'vite';
 
 export default defineConfig({
 	plugins: [sveltekit()],
+	test: {
+		include: ['src/**/*.test.ts']
+	},
 	server: {
 		port: 5175,
 		fs: {